@@ -0,0 +1,32 @@
+import "./environment";
+
+export type BctSessionConfig = {
+  poolSize: number;
+  maxAgeMs: number;
+  acquireTimeoutMs: number;
+};
+
+const getOptionalEnv = (key: string): string | undefined => {
+  const value = process.env[key];
+  if (typeof value !== "string") {
+    return undefined;
+  }
+
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : undefined;
+};
+
+const parsePositiveInt = (value: string | undefined, fallback: number): number => {
+  if (!value) {
+    return fallback;
+  }
+
+  const parsed = Number.parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+export const getBctSessionConfig = (): BctSessionConfig => ({
+  poolSize: parsePositiveInt(getOptionalEnv("BCT_SESSION_POOL_SIZE"), 5),
+  maxAgeMs: parsePositiveInt(getOptionalEnv("BCT_SESSION_MAX_AGE_MS"), 10 * 60_000),
+  acquireTimeoutMs: parsePositiveInt(getOptionalEnv("BCT_SESSION_ACQUIRE_TIMEOUT_MS"), 60_000),
+});
@@ -337,3 +337,21 @@ export const getTestSpreadsheetConfig = (): TestSpreadsheetConfig => {
     headerName,
   };
 };
+
+export interface ContainerSyncColumns {
+  container: string;
+  cen: string;
+  stop: string;
+  tState: string;
+}
+
+/**
+ * Header names used by `/google/tables/:identifier/container-sync` when the
+ * request does not override them. An empty target header skips that field.
+ */
+export const getContainerSyncColumns = (): ContainerSyncColumns => ({
+  container: process.env.GOOGLE_SHEETS_SYNC_CONTAINER_HEADER?.trim() || "Container",
+  cen: process.env.GOOGLE_SHEETS_SYNC_CEN_HEADER?.trim() ?? "CEN",
+  stop: process.env.GOOGLE_SHEETS_SYNC_STOP_HEADER?.trim() ?? "Stop",
+  tState: process.env.GOOGLE_SHEETS_SYNC_T_STATE_HEADER?.trim() ?? "T-State",
+});
@@ -0,0 +1,37 @@
+import "./environment";
+
+export type HttpRecordMode = "off" | "record" | "replay";
+
+export type HttpRecordConfig = {
+  mode: HttpRecordMode;
+  fixturesDir: string;
+};
+
+const MODES: readonly HttpRecordMode[] = ["off", "record", "replay"];
+const CLI_FLAG = "--http-mode=";
+
+const getOptionalEnv = (key: string): string | undefined => {
+  const value = process.env[key];
+  if (typeof value !== "string") {
+    return undefined;
+  }
+
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : undefined;
+};
+
+const parseMode = (raw: string | undefined): HttpRecordMode | undefined => {
+  const normalized = (raw ?? "").trim().toLowerCase();
+  return MODES.find((mode) => mode === normalized);
+};
+
+const readCliMode = (): string | undefined =>
+  process.argv.find((arg) => arg.startsWith(CLI_FLAG))?.slice(CLI_FLAG.length);
+
+/**
+ * `--http-mode=record|replay` on the command line wins over `HTTP_RECORD_MODE`.
+ */
+export const getHttpRecordConfig = (): HttpRecordConfig => ({
+  mode: parseMode(readCliMode()) ?? parseMode(getOptionalEnv("HTTP_RECORD_MODE")) ?? "off",
+  fixturesDir: getOptionalEnv("HTTP_FIXTURES_DIR") ?? "fixtures/http",
+});
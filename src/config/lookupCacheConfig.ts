@@ -0,0 +1,59 @@
+import "./environment";
+
+export type LookupCacheSource = "baltichub" | "bct";
+
+export type LookupCacheTtl = {
+  ttlMs: number;
+  negativeTtlMs: number;
+};
+
+export type LookupCacheConfig = {
+  enabled: boolean;
+  snapshotPath?: string;
+  sources: Record<LookupCacheSource, LookupCacheTtl>;
+};
+
+const getOptionalEnv = (key: string): string | undefined => {
+  const value = process.env[key];
+  if (typeof value !== "string") {
+    return undefined;
+  }
+
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : undefined;
+};
+
+const parseNumber = (value: string | undefined, fallback: number): number => {
+  if (!value) {
+    return fallback;
+  }
+
+  const parsed = Number.parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+const parseEnabledFlag = (raw: string | undefined, defaultValue: boolean): boolean => {
+  const normalized = (raw ?? "").toLowerCase();
+  if (["0", "false", "no", "n", "off"].includes(normalized)) {
+    return false;
+  }
+  if (["1", "true", "yes", "y", "on"].includes(normalized)) {
+    return true;
+  }
+  return defaultValue;
+};
+
+export const getLookupCacheConfig = (): LookupCacheConfig => ({
+  enabled: parseEnabledFlag(getOptionalEnv("LOOKUP_CACHE_ENABLED"), true),
+  snapshotPath: getOptionalEnv("LOOKUP_CACHE_SNAPSHOT_PATH"),
+  sources: {
+    baltichub: {
+      ttlMs: parseNumber(getOptionalEnv("LOOKUP_CACHE_BALTICHUB_TTL_MS"), 10 * 60_000),
+      negativeTtlMs: parseNumber(getOptionalEnv("LOOKUP_CACHE_BALTICHUB_NEGATIVE_TTL_MS"), 60_000),
+    },
+    bct: {
+      ttlMs: parseNumber(getOptionalEnv("LOOKUP_CACHE_BCT_TTL_MS"), 10 * 60_000),
+      negativeTtlMs: parseNumber(getOptionalEnv("LOOKUP_CACHE_BCT_NEGATIVE_TTL_MS"), 60_000),
+    },
+  },
+});
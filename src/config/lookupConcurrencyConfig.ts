@@ -0,0 +1,74 @@
+import "./environment";
+
+export type LookupConcurrencySource = "baltichub" | "bct";
+
+export type AdaptiveConcurrencyConfig = {
+  enabled: boolean;
+  min: number;
+  max: number;
+  /** Upstream calls faster than this count towards growing the limit. */
+  fastMs: number;
+};
+
+/** `all` covers lookups that query every terminal for each container. */
+export type LookupConcurrencyTarget = LookupConcurrencySource | "all";
+
+const ENV_PREFIXES: Record<LookupConcurrencySource, string> = {
+  baltichub: "CONTAINER_LOOKUP_CONCURRENCY",
+  bct: "BCT_LOOKUP_CONCURRENCY",
+};
+
+const FIXED_LIMITS: Record<LookupConcurrencyTarget, { key: string; fallback: number }> = {
+  baltichub: { key: "CONTAINER_LOOKUP_CONCURRENCY", fallback: 3 },
+  bct: { key: "BCT_LOOKUP_CONCURRENCY", fallback: 5 },
+  all: { key: "LOOKUP_ALL_CONCURRENCY", fallback: 3 },
+};
+
+const getOptionalEnv = (key: string): string | undefined => {
+  const value = process.env[key];
+  if (typeof value !== "string") {
+    return undefined;
+  }
+
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : undefined;
+};
+
+const parsePositiveInt = (value: string | undefined, fallback: number): number => {
+  if (!value) {
+    return fallback;
+  }
+
+  const parsed = Number.parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+const parseEnabledFlag = (raw: string | undefined, defaultValue: boolean): boolean => {
+  const normalized = (raw ?? "").toLowerCase();
+  if (["0", "false", "no", "n", "off"].includes(normalized)) {
+    return false;
+  }
+  if (["1", "true", "yes", "y", "on"].includes(normalized)) {
+    return true;
+  }
+  return defaultValue;
+};
+
+/** Fixed number of parallel upstream lookups for the target. */
+export const getLookupConcurrency = (target: LookupConcurrencyTarget): number => {
+  const { key, fallback } = FIXED_LIMITS[target];
+  return parsePositiveInt(getOptionalEnv(key), fallback);
+};
+
+export const getAdaptiveConcurrencyConfig = (
+  source: LookupConcurrencySource
+): AdaptiveConcurrencyConfig => {
+  const prefix = ENV_PREFIXES[source];
+  const min = parsePositiveInt(getOptionalEnv(`${prefix}_MIN`), 1);
+  return {
+    enabled: parseEnabledFlag(getOptionalEnv(`${prefix}_ADAPTIVE`), false),
+    min,
+    max: Math.max(min, parsePositiveInt(getOptionalEnv(`${prefix}_MAX`), 10)),
+    fastMs: parsePositiveInt(getOptionalEnv(`${prefix}_FAST_MS`), 3_000),
+  };
+};
@@ -0,0 +1,60 @@
+import "./environment";
+
+export type HostPolicy = {
+  /** Sustained requests per second (token refill rate). */
+  ratePerSecond: number;
+  /** Bucket size, i.e. how many requests may go out back to back. */
+  burst: number;
+  /** Consecutive failures that open the circuit. */
+  failureThreshold: number;
+  /** How long an open circuit fails fast before letting a probe through. */
+  cooldownMs: number;
+};
+
+export type OutboundPolicyConfig = {
+  defaults: HostPolicy;
+  hosts: Record<string, Partial<HostPolicy>>;
+};
+
+const getOptionalEnv = (key: string): string | undefined => {
+  const value = process.env[key];
+  if (typeof value !== "string") {
+    return undefined;
+  }
+
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : undefined;
+};
+
+const parsePositiveNumber = (value: string | undefined, fallback: number): number => {
+  if (!value) {
+    return fallback;
+  }
+
+  const parsed = Number.parseFloat(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+const parseHostOverrides = (raw: string | undefined): Record<string, Partial<HostPolicy>> => {
+  if (!raw) {
+    return {};
+  }
+
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : {};
+  } catch (error) {
+    console.warn("[outbound] OUTBOUND_HOST_POLICIES is not valid JSON, ignoring it");
+    return {};
+  }
+};
+
+export const getOutboundPolicyConfig = (): OutboundPolicyConfig => ({
+  defaults: {
+    ratePerSecond: parsePositiveNumber(getOptionalEnv("OUTBOUND_RATE_PER_SECOND"), 5),
+    burst: parsePositiveNumber(getOptionalEnv("OUTBOUND_RATE_BURST"), 10),
+    failureThreshold: parsePositiveNumber(getOptionalEnv("OUTBOUND_BREAKER_FAILURES"), 5),
+    cooldownMs: parsePositiveNumber(getOptionalEnv("OUTBOUND_BREAKER_COOLDOWN_MS"), 30_000),
+  },
+  hosts: parseHostOverrides(getOptionalEnv("OUTBOUND_HOST_POLICIES")),
+});
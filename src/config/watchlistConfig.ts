@@ -0,0 +1,55 @@
+import "./environment";
+
+export type WatchlistConfig = {
+  enabled: boolean;
+  storePath?: string;
+  pollIntervalMs: number;
+  concurrency: number;
+  defaultTtlMs: number;
+  maxTtlMs: number;
+  gonePollsBeforeComplete: number;
+  webhookTimeoutMs: number;
+};
+
+const getOptionalEnv = (key: string): string | undefined => {
+  const value = process.env[key];
+  if (typeof value !== "string") {
+    return undefined;
+  }
+
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : undefined;
+};
+
+const parsePositiveInt = (value: string | undefined, fallback: number): number => {
+  if (!value) {
+    return fallback;
+  }
+
+  const parsed = Number.parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+const parseEnabledFlag = (raw: string | undefined, defaultValue: boolean): boolean => {
+  const normalized = (raw ?? "").toLowerCase();
+  if (["0", "false", "no", "n", "off"].includes(normalized)) {
+    return false;
+  }
+  if (["1", "true", "yes", "y", "on"].includes(normalized)) {
+    return true;
+  }
+  return defaultValue;
+};
+
+const HOUR_MS = 60 * 60_000;
+
+export const getWatchlistConfig = (): WatchlistConfig => ({
+  enabled: parseEnabledFlag(getOptionalEnv("WATCHLIST_ENABLED"), true),
+  storePath: getOptionalEnv("WATCHLIST_STORE_PATH"),
+  pollIntervalMs: parsePositiveInt(getOptionalEnv("WATCHLIST_POLL_INTERVAL_MS"), 5 * 60_000),
+  concurrency: parsePositiveInt(getOptionalEnv("WATCHLIST_POLL_CONCURRENCY"), 3),
+  defaultTtlMs: parsePositiveInt(getOptionalEnv("WATCHLIST_DEFAULT_TTL_HOURS"), 72) * HOUR_MS,
+  maxTtlMs: parsePositiveInt(getOptionalEnv("WATCHLIST_MAX_TTL_HOURS"), 30 * 24) * HOUR_MS,
+  gonePollsBeforeComplete: parsePositiveInt(getOptionalEnv("WATCHLIST_GONE_AFTER_POLLS"), 3),
+  webhookTimeoutMs: parsePositiveInt(getOptionalEnv("WATCHLIST_WEBHOOK_TIMEOUT_MS"), 10_000),
+});
@@ -1,14 +1,59 @@
 import type { Request, Response } from "express";
 import {
-  fetchBctForContainer,
-  fetchContainerInfo,
-} from "../service/containerService";
-import { mapWithConcurrency } from "../utils/concurrency";
+  lookupBaltichubContainers,
+  lookupBctContainers,
+  toBaltichubMapEntry,
+  toBctMapEntry,
+  type BaltichubMapEntry,
+  type BctMapEntry,
+  type ContainerDetailField,
+  type ContainerLookupEntry,
+  type ContainerLookupOptions,
+  CONTAINER_DETAIL_FIELDS,
+} from "../service/containerLookup";
+import {
+  getAdaptiveConcurrencyConfig,
+  getLookupConcurrency,
+  type LookupConcurrencySource,
+} from "../config/lookupConcurrencyConfig";
+import { BCT_HOST } from "../service/bctSessionPool";
+import { getContainerHistory } from "../service/containerHistory";
+import {
+  fetchDeclarationsByContainers,
+  type ContainerDeclaration,
+} from "../service/firebird";
+import { BALTICHUB_HOST } from "../service/containerService";
+import {
+  cancelLookupJob,
+  getLookupJob,
+  startLookupJob,
+  type LookupJob,
+} from "../service/lookupJobs";
+import type { LookupCacheStatus } from "../service/lookupCache";
+import {
+  describeTerminal,
+  getTerminalAdapter,
+  listTerminalAdapters,
+  lookupAllTerminals,
+} from "../service/terminals";
+import {
+  AdaptiveConcurrency,
+  describeConcurrency,
+  mapWithConcurrency,
+  type ConcurrencyLimit,
+} from "../utils/concurrency";
+import { describeHostPolicies } from "../utils/hostPolicy";
+import { openEventStream, resolveStreamFormat, type StreamFormat } from "../utils/eventStream";
+import { resolveExportFormat, sendTableExport, type ExportTable } from "../utils/tableExport";
 import { sleep } from "../utils/time";
-import type { ContainerInfo } from "../types/index";
+import type { XlsxCell } from "../utils/xlsx";
+import {
+  normalizeContainerNumber,
+  validateContainerNumber,
+} from "../utils/containerNumber";
+import type { BctInfo, ContainerInfo, LookupOutcome } from "../types/index";
 
-const DEFAULT_BCT_CONCURRENCY = 5;
-const DEFAULT_CONTAINER_CONCURRENCY = 3;
+const DEFAULT_CONTAINER_BATCH_SIZE = 50;
 
 const parseConcurrency = (
   raw: unknown,
@@ -26,6 +71,27 @@ const parseConcurrency = (
   return parsed > 0 ? parsed : fallback;
 };
 
+/**
+ * The configured fixed limit, or an adaptive limit starting from it when enabled
+ * in the environment or requested with `adaptive=true`.
+ */
+const resolveLookupConcurrency = (
+  req: Request,
+  source: LookupConcurrencySource,
+  fixed: number
+): ConcurrencyLimit => {
+  const config = getAdaptiveConcurrencyConfig(source);
+  if (!config.enabled && !readBooleanOption(req, "adaptive")) {
+    return fixed;
+  }
+  return new AdaptiveConcurrency({
+    min: config.min,
+    max: config.max,
+    initial: fixed,
+    fastMs: config.fastMs,
+  });
+};
+
 const sanitizeContainers = (containers: unknown): string[] => {
   if (!Array.isArray(containers)) {
     return [];
@@ -38,66 +104,512 @@ const sanitizeContainers = (containers: unknown): string[] => {
   return normalized;
 };
 
+type InvalidContainer = {
+  input: string;
+  normalized: string;
+  reason: string;
+  message: string;
+};
+
+type CorrectedContainer = {
+  input: string;
+  value: string;
+};
+
+const partitionContainers = (values: readonly string[], autoCorrect: boolean) => {
+  const valid: string[] = [];
+  const invalid: InvalidContainer[] = [];
+  const corrected: CorrectedContainer[] = [];
+
+  for (const input of values) {
+    const result = validateContainerNumber(input, { autoCorrect });
+    if (!result.valid) {
+      const { valid: _omit, ...rest } = result;
+      invalid.push(rest);
+      continue;
+    }
+
+    if (result.corrected) {
+      corrected.push({ input, value: result.value });
+    }
+    if (!valid.includes(result.value)) {
+      valid.push(result.value);
+    }
+  }
+
+  return { valid, invalid, corrected };
+};
+
+const readWantT = (req: Request): boolean =>
+  String(
+    req.query?.t_status ?? (req.body as any)?.t_status ?? ""
+  ).toLowerCase() === "true" || (req.body as any)?.t_status === true;
+
+const FULL_DETAIL_VALUES = ["full", "all", "*"];
+
+const readDetailFields = (req: Request): ContainerDetailField[] => {
+  const body = (req.body ?? {}) as Record<string, unknown>;
+  const detail = String(req.query?.detail ?? body.detail ?? "").trim().toLowerCase();
+  if (FULL_DETAIL_VALUES.includes(detail)) {
+    return [...CONTAINER_DETAIL_FIELDS];
+  }
+
+  const rawFields = req.query?.fields ?? body.fields;
+  const requested = (Array.isArray(rawFields) ? rawFields : String(rawFields ?? "").split(","))
+    .map((value) => String(value ?? "").trim())
+    .filter((value) => value.length > 0);
+  if (requested.some((value) => FULL_DETAIL_VALUES.includes(value.toLowerCase()))) {
+    return [...CONTAINER_DETAIL_FIELDS];
+  }
+
+  return CONTAINER_DETAIL_FIELDS.filter((field) =>
+    requested.some((value) => value.toLowerCase() === field.toLowerCase())
+  );
+};
+
+const toJobResponse = (job: LookupJob) => ({
+  id: job.id,
+  status: job.status,
+  progress: { done: job.done, total: job.total },
+  failures: job.failures,
+  createdAt: job.createdAt,
+  finishedAt: job.finishedAt,
+  expiresAt: job.expiresAt,
+  map: job.map,
+  invalid: job.invalid,
+  ...(job.corrected.length > 0 ? { corrected: job.corrected } : {}),
+  cache: job.cache,
+  concurrency: describeConcurrency(job.concurrency),
+  ...(job.error ? { error: job.error } : {}),
+});
+
+/**
+ * Writes one `record` event per container as soon as it resolves, then a `summary` event.
+ */
+const streamLookupResults = async <V>(
+  res: Response,
+  format: StreamFormat,
+  containers: readonly string[],
+  extras: {
+    invalid: InvalidContainer[];
+    corrected: CorrectedContainer[];
+    diagnostics: boolean;
+    upstreamHosts: readonly string[];
+    concurrency: ConcurrencyLimit;
+  },
+  run: (options: Pick<ContainerLookupOptions<V>, "onResult" | "shouldStop">) => Promise<unknown>,
+  toData: (info: V) => unknown
+) => {
+  const stream = openEventStream(res, format);
+  const startedAt = Date.now();
+  const failures: string[] = [];
+  const errors: Record<string, LookupOutcome> = {};
+  let found = 0;
+  let notFound = 0;
+  let cacheHits = 0;
+
+  await run({
+    shouldStop: stream.isClosed,
+    onResult: ({ container, info, cache, outcome }) => {
+      const data = info ? toData(info) : null;
+      // Baltichub misses still carry an (empty) info, so only the outcome tells them apart.
+      if (outcome.state === "found") {
+        found += 1;
+      } else if (outcome.state === "not_found") {
+        notFound += 1;
+      } else {
+        failures.push(container);
+      }
+      if (cache.hit) {
+        cacheHits += 1;
+      }
+      if (outcome.state !== "found") {
+        errors[container] = outcome;
+      }
+      stream.send("record", {
+        container,
+        data,
+        cache,
+        ...(extras.diagnostics ? { outcome } : {}),
+      });
+    },
+  });
+
+  stream.send("summary", {
+    total: containers.length,
+    found,
+    notFound,
+    failed: failures.length,
+    failures,
+    cacheHits,
+    invalid: extras.invalid,
+    ...(extras.corrected.length > 0 ? { corrected: extras.corrected } : {}),
+    upstream: describeHostPolicies(extras.upstreamHosts),
+    concurrency: describeConcurrency(extras.concurrency),
+    ...(extras.diagnostics ? { errors } : {}),
+    durationMs: Date.now() - startedAt,
+  });
+  stream.end();
+};
+
+const readBooleanOption = (req: Request, name: string): boolean => {
+  const body = (req.body ?? {}) as Record<string, unknown>;
+  const raw = req.query?.[name] ?? body[name];
+  return raw === true || String(raw ?? "").toLowerCase() === "true";
+};
+
+/** Outcomes of every container that was not found, keyed by container. */
+const collectLookupErrors = (
+  entries: readonly { container: string; outcome: LookupOutcome }[]
+): Record<string, LookupOutcome> => {
+  const errors: Record<string, LookupOutcome> = {};
+  for (const { container, outcome } of entries) {
+    if (outcome.state !== "found") {
+      errors[container] = outcome;
+    }
+  }
+  return errors;
+};
+
+const BALTICHUB_EXPORT_FIELDS = [
+  "cen",
+  "stop",
+  "t_state",
+  "inboundMode",
+  "carrierSeal",
+  "vetSeal",
+  "customsSeal",
+  "timeIn",
+  "timeOut",
+] as const;
+
+const BCT_EXPORT_FIELDS = ["terminal_status", "cen"] as const;
+
+const toBaltichubExportCells = (info: ContainerInfo): XlsxCell[] => [
+  info.cen,
+  info.stop,
+  info.t_state,
+  info.details?.inboundMode,
+  info.details?.carrierSeal,
+  info.details?.vetSeal,
+  info.details?.customsSeal,
+  info.details?.timeIn,
+  info.details?.timeOut,
+];
+
+const toBctExportCells = (info: BctInfo): XlsxCell[] => [info.status, info.cen];
+
+/**
+ * One row per requested container, in input order (duplicates included), so the
+ * table lines up with the sheet it came from. Columns never depend on the data.
+ */
+const buildLookupExportTable = <V>(
+  inputs: readonly string[],
+  autoCorrect: boolean,
+  entries: readonly ContainerLookupEntry<V>[],
+  fields: readonly string[],
+  toCells: (info: V) => XlsxCell[]
+): ExportTable => {
+  const byContainer = new Map(entries.map((entry) => [entry.container, entry]));
+  const empty = fields.map(() => null);
+
+  const rows = inputs.map((input): XlsxCell[] => {
+    const validation = validateContainerNumber(input, { autoCorrect });
+    if (!validation.valid) {
+      return [input, validation.normalized, "invalid", validation.message, ...empty];
+    }
+
+    const entry = byContainer.get(validation.value);
+    if (!entry) {
+      return [input, validation.value, "skipped", null, ...empty];
+    }
+    return [
+      input,
+      validation.value,
+      entry.outcome.state,
+      entry.outcome.lastError ?? null,
+      ...(entry.info ? toCells(entry.info) : empty),
+    ];
+  });
+
+  return { columns: ["input", "container", "status", "error", ...fields], rows };
+};
+
+/** Firebird being down must not fail the terminal lookup, so errors are reported alongside. */
+const loadCustomsDeclarations = async (containers: readonly string[]) => {
+  try {
+    return { declarations: await fetchDeclarationsByContainers(containers), error: null };
+  } catch (error) {
+    return {
+      declarations: null,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+};
+
+const readBatchSize = (req: Request): number => {
+  const body = (req.body ?? {}) as Record<string, unknown>;
+  const fallback = parseConcurrency(
+    process.env.CONTAINER_LOOKUP_BATCH_SIZE,
+    DEFAULT_CONTAINER_BATCH_SIZE
+  );
+  const raw = req.query?.batchSize ?? body.batchSize;
+  return raw === undefined ? fallback : parseConcurrency(String(raw), fallback);
+};
+
 export class ContainerController {
   static async lookupBct(req: Request, res: Response) {
-    const normalized = sanitizeContainers((req.body as { containers?: unknown }).containers);
-    if (normalized.length === 0) {
+    const sanitized = sanitizeContainers((req.body as { containers?: unknown }).containers);
+    if (sanitized.length === 0) {
       return res.status(400).json({ error: "No containers provided" });
     }
 
-    const concurrency = parseConcurrency(
-      process.env.BCT_LOOKUP_CONCURRENCY,
-      DEFAULT_BCT_CONCURRENCY
+    const autoCorrect = readBooleanOption(req, "autocorrect");
+    const { valid: normalized, invalid, corrected } = partitionContainers(sanitized, autoCorrect);
+
+    const concurrency = resolveLookupConcurrency(
+      req,
+      "bct",
+      getLookupConcurrency("bct")
     );
 
-    const results = await mapWithConcurrency(normalized, concurrency, async (cont) => {
-      const { cen, status } = await fetchBctForContainer(cont);
-      return { cont, cen, status };
-    });
+    const fresh = readBooleanOption(req, "fresh");
+    const diagnostics = readBooleanOption(req, "diagnostics");
+    const exportFormat = resolveExportFormat(req);
+    if (exportFormat) {
+      const entries = await lookupBctContainers(normalized, { concurrency, fresh });
+      sendTableExport(
+        res,
+        exportFormat,
+        "bct-lookup",
+        buildLookupExportTable(sanitized, autoCorrect, entries, BCT_EXPORT_FIELDS, toBctExportCells)
+      );
+      return;
+    }
+
+    const format = resolveStreamFormat(req);
+    if (format) {
+      await streamLookupResults(
+        res,
+        format,
+        normalized,
+        { invalid, corrected, diagnostics, upstreamHosts: [BCT_HOST], concurrency },
+        (options) => lookupBctContainers(normalized, { concurrency, fresh, ...options }),
+        toBctMapEntry
+      );
+      return;
+    }
+
+    const entries = await lookupBctContainers(normalized, { concurrency, fresh });
 
-    const map: Record<string, { status: string; cen?: string }> = {};
-    for (const { cont, cen, status } of results) {
-      if (status || cen) {
-        map[cont] = { status: status ?? "", cen };
+    const map: Record<string, BctMapEntry> = {};
+    const cache: Record<string, LookupCacheStatus> = {};
+    for (const { container, info, cache: status } of entries) {
+      cache[container] = status;
+      const entry = info ? toBctMapEntry(info) : null;
+      if (entry) {
+        map[container] = entry;
       }
     }
 
-    return res.json({ map });
+    return res.json({
+      map,
+      invalid,
+      ...(corrected.length > 0 ? { corrected } : {}),
+      cache,
+      upstream: describeHostPolicies([BCT_HOST]),
+      concurrency: describeConcurrency(concurrency),
+      ...(diagnostics ? { errors: collectLookupErrors(entries) } : {}),
+    });
   }
 
   static async lookup(req: Request, res: Response) {
-    const normalized = sanitizeContainers((req.body as { containers?: unknown }).containers);
+    const sanitized = sanitizeContainers((req.body as { containers?: unknown }).containers);
+
+    const wantT = readWantT(req);
+    const detailFields = readDetailFields(req);
+
+    if (sanitized.length === 0) {
+      return res.status(400).json({ error: "No containers provided" });
+    }
+
+    const autoCorrect = readBooleanOption(req, "autocorrect");
+    const { valid: normalized, invalid, corrected } = partitionContainers(sanitized, autoCorrect);
+
+    const concurrency = resolveLookupConcurrency(
+      req,
+      "baltichub",
+      getLookupConcurrency("baltichub")
+    );
+
+    const fresh = readBooleanOption(req, "fresh");
+    const batchSize = readBooleanOption(req, "batch") ? readBatchSize(req) : undefined;
+    const diagnostics = readBooleanOption(req, "diagnostics");
+    const exportFormat = resolveExportFormat(req);
+    if (exportFormat) {
+      const entries = await lookupBaltichubContainers(normalized, {
+        concurrency,
+        fresh,
+        batchSize,
+      });
+      sendTableExport(
+        res,
+        exportFormat,
+        "baltichub-lookup",
+        buildLookupExportTable(
+          sanitized,
+          autoCorrect,
+          entries,
+          BALTICHUB_EXPORT_FIELDS,
+          toBaltichubExportCells
+        )
+      );
+      return;
+    }
+
+    const format = resolveStreamFormat(req);
+    if (format) {
+      await streamLookupResults(
+        res,
+        format,
+        normalized,
+        { invalid, corrected, diagnostics, upstreamHosts: [BALTICHUB_HOST], concurrency },
+        (options) =>
+          lookupBaltichubContainers(normalized, { concurrency, fresh, batchSize, ...options }),
+        (info: ContainerInfo) => toBaltichubMapEntry(info, wantT, detailFields)
+      );
+      return;
+    }
+
+    const withCustoms = readBooleanOption(req, "withCustoms");
+    const [entries, customs] = await Promise.all([
+      lookupBaltichubContainers(normalized, {
+        concurrency,
+        fresh,
+        batchSize,
+      }),
+      withCustoms ? loadCustomsDeclarations(normalized) : Promise.resolve(null),
+    ]);
 
-    const wantT =
-      String(
-        req.query?.t_status ?? (req.body as any)?.t_status ?? ""
-      ).toLowerCase() === "true" || (req.body as any)?.t_status === true;
+    const map: Record<string, BaltichubMapEntry & { customs?: ContainerDeclaration[] }> = {};
+    const cache: Record<string, LookupCacheStatus> = {};
+    for (const { container, info, cache: status } of entries) {
+      cache[container] = status;
+      if (info) {
+        map[container] = toBaltichubMapEntry(info, wantT, detailFields);
+        if (customs?.declarations) {
+          map[container].customs = customs.declarations[container] ?? [];
+        }
+      }
+    }
 
-    if (normalized.length === 0) {
+    return res.json({
+      map,
+      invalid,
+      ...(corrected.length > 0 ? { corrected } : {}),
+      cache,
+      upstream: describeHostPolicies([BALTICHUB_HOST]),
+      concurrency: describeConcurrency(concurrency),
+      ...(customs?.error ? { customsError: customs.error } : {}),
+      ...(diagnostics ? { errors: collectLookupErrors(entries) } : {}),
+    });
+  }
+
+  static createLookupJob(req: Request, res: Response) {
+    const sanitized = sanitizeContainers((req.body as { containers?: unknown }).containers);
+    if (sanitized.length === 0) {
       return res.status(400).json({ error: "No containers provided" });
     }
 
-    const concurrency = parseConcurrency(
-      process.env.CONTAINER_LOOKUP_CONCURRENCY,
-      DEFAULT_CONTAINER_CONCURRENCY
+    const { valid, invalid, corrected } = partitionContainers(
+      sanitized,
+      readBooleanOption(req, "autocorrect")
     );
 
-    const results = await mapWithConcurrency(normalized, concurrency, async (cont) => {
-      const info = await fetchContainerInfo(cont);
-      return { cont, info };
+    const job = startLookupJob({
+      containers: valid,
+      wantT: readWantT(req),
+      detailFields: readDetailFields(req),
+      fresh: readBooleanOption(req, "fresh"),
+      batchSize: readBooleanOption(req, "batch") ? readBatchSize(req) : undefined,
+      concurrency: resolveLookupConcurrency(
+        req,
+        "baltichub",
+        getLookupConcurrency("baltichub")
+      ),
+      invalid,
+      corrected,
+    });
+
+    return res.status(202).json({
+      id: job.id,
+      status: job.status,
+      progress: { done: job.done, total: job.total },
     });
+  }
 
-    const infoMap: Record<string, ContainerInfo> = {};
-    for (const { info } of results) {
-      Object.assign(infoMap, info);
+  static getLookupJob(req: Request, res: Response) {
+    const job = getLookupJob(req.params.id);
+    if (!job) {
+      return res.status(404).json({ error: `Lookup job "${req.params.id}" not found` });
     }
+    return res.json(toJobResponse(job));
+  }
 
-    const map: Record<string, { cen: string; stop: string; t_state?: string }> = {};
-    for (const [k, v] of Object.entries(infoMap)) {
-      const base = { cen: v.cen ?? "", stop: v.stop ?? "" };
-      map[k] = wantT ? { ...base, t_state: v.t_state ?? "" } : base;
+  static cancelLookupJob(req: Request, res: Response) {
+    const job = cancelLookupJob(req.params.id);
+    if (!job) {
+      return res.status(404).json({ error: `Lookup job "${req.params.id}" not found` });
     }
+    return res.json(toJobResponse(job));
+  }
+
+  static async lookupAll(req: Request, res: Response) {
+    const sanitized = sanitizeContainers((req.body as { containers?: unknown }).containers);
+    if (sanitized.length === 0) {
+      return res.status(400).json({ error: "No containers provided" });
+    }
+
+    const { valid: normalized, invalid, corrected } = partitionContainers(
+      sanitized,
+      readBooleanOption(req, "autocorrect")
+    );
+
+    const concurrency = getLookupConcurrency("all");
+    const adapters = listTerminalAdapters();
+
+    const results = await mapWithConcurrency(normalized, concurrency, (cont) =>
+      lookupAllTerminals(cont, adapters)
+    );
+
+    return res.json({
+      terminals: adapters.map((adapter) => adapter.id),
+      results,
+      conflicts: results.filter((result) => result.conflicts.length > 0).length,
+      invalid,
+      ...(corrected.length > 0 ? { corrected } : {}),
+    });
+  }
+
+  static history(req: Request, res: Response) {
+    const cont = normalizeContainerNumber(req.params.id ?? "");
+    if (!cont) {
+      return res.status(400).json({ error: "Container number is required" });
+    }
+
+    const rawSource = String(req.query?.source ?? "").trim().toLowerCase();
+    const source = rawSource ? getTerminalAdapter(rawSource)?.id : undefined;
+    if (rawSource && !source) {
+      const known = listTerminalAdapters().map((adapter) => adapter.id);
+      return res.status(400).json({
+        error: `Unknown source "${rawSource}". Expected one of: ${known.join(", ")}`,
+      });
+    }
+
+    return res.json({ container: cont, history: getContainerHistory(cont, source) });
+  }
 
-    return res.json({ map });
+  static terminals(_req: Request, res: Response) {
+    return res.json({ terminals: listTerminalAdapters().map(describeTerminal) });
   }
 }
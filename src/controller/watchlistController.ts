@@ -0,0 +1,102 @@
+import type { Request, Response } from "express";
+import {
+  createWatches,
+  deleteWatch,
+  getWatch,
+  listWatches,
+  toPublicWatch,
+  watchOwnerOf,
+} from "../service/watchlistService";
+import { validateContainerNumber } from "../utils/containerNumber";
+
+const HOUR_MS = 60 * 60_000;
+
+const parseCallbackUrl = (raw: unknown): string | undefined => {
+  if (typeof raw !== "string") {
+    return undefined;
+  }
+
+  try {
+    const url = new URL(raw.trim());
+    return url.protocol === "http:" || url.protocol === "https:" ? url.toString() : undefined;
+  } catch (error) {
+    return undefined;
+  }
+};
+
+const parseLabels = (raw: unknown): string[] => {
+  const values = Array.isArray(raw) ? raw : typeof raw === "string" ? raw.split(",") : [];
+  return values.map((value) => String(value ?? "").trim()).filter((value) => value.length > 0);
+};
+
+const parseTtlMs = (raw: unknown): number | undefined => {
+  const parsed = typeof raw === "number" ? raw : Number.parseFloat(String(raw ?? ""));
+  return Number.isFinite(parsed) && parsed > 0 ? parsed * HOUR_MS : undefined;
+};
+
+/** Watches are scoped to the API key that `apiKeyAuth` accepted for the request. */
+const readOwner = (res: Response): string => watchOwnerOf(String(res.locals.apiKey ?? ""));
+
+export class WatchlistController {
+  static create(req: Request, res: Response) {
+    const body = (req.body ?? {}) as Record<string, unknown>;
+    const containers = Array.isArray(body.containers) ? body.containers : [];
+    if (containers.length === 0) {
+      return res.status(400).json({ error: "No containers provided" });
+    }
+
+    const callbackUrl = parseCallbackUrl(body.callbackUrl);
+    if (!callbackUrl) {
+      return res.status(400).json({ error: "`callbackUrl` must be an absolute http(s) URL" });
+    }
+
+    const valid: string[] = [];
+    const invalid: Array<{ input: string; reason: string; message: string }> = [];
+    for (const raw of containers) {
+      const result = validateContainerNumber(String(raw ?? ""), {
+        autoCorrect: body.autocorrect === true,
+      });
+      if (result.valid) {
+        if (!valid.includes(result.value)) valid.push(result.value);
+      } else {
+        invalid.push({ input: result.input, reason: result.reason, message: result.message });
+      }
+    }
+
+    if (valid.length === 0) {
+      return res.status(400).json({ error: "No valid containers provided", invalid });
+    }
+
+    const watches = createWatches({
+      owner: readOwner(res),
+      containers: valid,
+      callbackUrl,
+      labels: parseLabels(body.labels),
+      ttlMs: parseTtlMs(body.ttlHours),
+    });
+
+    return res.status(201).json({
+      watches: watches.map((watch) => ({ ...toPublicWatch(watch), secret: watch.secret })),
+      invalid,
+    });
+  }
+
+  static list(_req: Request, res: Response) {
+    return res.json({ watches: listWatches(readOwner(res)).map(toPublicWatch) });
+  }
+
+  static get(req: Request, res: Response) {
+    const watch = getWatch(req.params.id, readOwner(res));
+    if (!watch) {
+      return res.status(404).json({ error: `Watch "${req.params.id}" not found` });
+    }
+    return res.json(toPublicWatch(watch));
+  }
+
+  static remove(req: Request, res: Response) {
+    if (!deleteWatch(req.params.id, readOwner(res))) {
+      return res.status(404).json({ error: `Watch "${req.params.id}" not found` });
+    }
+    return res.status(204).end();
+  }
+}
@@ -56,6 +56,8 @@ export const apiKeyAuth: RequestHandler = (req, res, next) => {
     return;
   }
 
+  // Lets handlers scope stored data to the calling key.
+  res.locals.apiKey = candidate;
   next();
 };
 
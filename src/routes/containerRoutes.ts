@@ -1,10 +1,21 @@
 import { Router } from "express";
 import { ContainerController } from "../controller/containerController";
+import { WatchlistController } from "../controller/watchlistController";
 import apiKeyAuth from "../middleware/apiKeyAuth";
 
 const containerRoutes = Router();
 
 containerRoutes.post("/lookup-bct", apiKeyAuth, ContainerController.lookupBct);
 containerRoutes.post("/lookup", apiKeyAuth, ContainerController.lookup);
+containerRoutes.post("/lookup/jobs", apiKeyAuth, ContainerController.createLookupJob);
+containerRoutes.get("/lookup/jobs/:id", apiKeyAuth, ContainerController.getLookupJob);
+containerRoutes.delete("/lookup/jobs/:id", apiKeyAuth, ContainerController.cancelLookupJob);
+containerRoutes.post("/lookup-all", apiKeyAuth, ContainerController.lookupAll);
+containerRoutes.get("/terminals", apiKeyAuth, ContainerController.terminals);
+containerRoutes.get("/containers/:id/history", apiKeyAuth, ContainerController.history);
+containerRoutes.post("/containers/watch", apiKeyAuth, WatchlistController.create);
+containerRoutes.get("/containers/watch", apiKeyAuth, WatchlistController.list);
+containerRoutes.get("/containers/watch/:id", apiKeyAuth, WatchlistController.get);
+containerRoutes.delete("/containers/watch/:id", apiKeyAuth, WatchlistController.remove);
 
 export default containerRoutes;
@@ -1,21 +1,168 @@
-import { Router } from "express";
+import { Router, type Request, type Response } from "express";
 import {
+  addPlnValuesToSadueDetail,
+  addPlnValuesToWysylki,
   checkFirebirdConnection,
   fetchCmrSampleRows,
+  fetchCurrencyRate,
+  fetchDeclarationsByContainers,
+  fetchDutyReport,
+  fetchMrnTimeline,
   fetchRejestrEntriesByDeclarationDate,
+  fetchRejestrEntriesByDeclarationDateRange,
+  fetchSadueDetail,
   fetchUsualRejestrEntriesByDeclarationDate,
+  fetchUsualRejestrEntriesByDeclarationDateRange,
   fetchWysylkiByCreationDate,
+  fetchWysylkiByCreationDateRange,
   fetchWysylkiByMrn,
+  SADUE_DETAIL_PARTS,
+  type DutyReport,
+  type SadueDetailPart,
 } from "../service/firebird";
 import {
   extractDeclarantAndCommentFromXml,
   parseXmlFieldsForWysylkaRow,
 } from "../utils/wysylkaXml";
 import { getFirstQueryParam } from "./helpers/queryParams";
-import { isIsoDateOnlyFormat } from "../service/firebird/dateUtils";
+import { isIsoDateOnlyFormat, parseIsoDateOnly } from "../service/firebird/dateUtils";
+import {
+  normalizeDateRangeQuery,
+  type DateRangeQuery,
+} from "../service/firebird/pagination";
+import { normalizeContainerNumber } from "../utils/containerNumber";
+import { resolveExportFormat, sendTableExport, type ExportTable } from "../utils/tableExport";
 
 const firebirdRoutes = Router();
 
+const stripResponseXml = (row: Record<string, unknown>): Record<string, unknown> => {
+  const sanitized: Record<string, unknown> = {
+    ...row,
+    ...parseXmlFieldsForWysylkaRow(row),
+  };
+  delete sanitized["odpowiedzXml"];
+  delete sanitized["odpowiedzXmlBytes"];
+  return sanitized;
+};
+
+const readUsualFlag = (query: Record<string, unknown>): boolean => {
+  const rawUsualFlag = getFirstQueryParam(query.usual);
+  const rawModeFlag = getFirstQueryParam(query.mode);
+  const rawFlagFlag = getFirstQueryParam(query.flag);
+  const normalizedFlagValue =
+    rawUsualFlag.trim().toLowerCase() ||
+    rawModeFlag.trim().toLowerCase() ||
+    rawFlagFlag.trim().toLowerCase();
+  const hasUsualKey = Object.prototype.hasOwnProperty.call(query ?? {}, "usual");
+  return (
+    normalizedFlagValue === "usual" ||
+    ["1", "true", "yes", "y", "on"].includes(normalizedFlagValue) ||
+    (hasUsualKey && normalizedFlagValue === "")
+  );
+};
+
+/** `pln=true` adds PLN-converted values using the WinSAD rate tables. */
+const readPlnFlag = (query: Record<string, unknown>): boolean =>
+  ["1", "true", "yes", "y", "on"].includes(getFirstQueryParam(query.pln).trim().toLowerCase());
+
+/** `from`, `to`, `cursor` and `pageSize` query parameters; `null` after a 400 was sent. */
+const readDateRangeQuery = (req: Request, res: Response): DateRangeQuery | null => {
+  const rawPageSize = getFirstQueryParam(req.query.pageSize).trim();
+  try {
+    return normalizeDateRangeQuery(
+      getFirstQueryParam(req.query.from),
+      getFirstQueryParam(req.query.to),
+      {
+        cursor: getFirstQueryParam(req.query.cursor),
+        pageSize: rawPageSize ? Number.parseInt(rawPageSize, 10) : undefined,
+      }
+    );
+  } catch (error) {
+    res.status(400).json({
+      status: "error",
+      message: error instanceof Error ? error.message : "Invalid date range",
+    });
+    return null;
+  }
+};
+
+/** `from` and `to` of a whole-range report, which has no pages; `null` after a 400 was sent. */
+const readReportRangeQuery = (req: Request, res: Response): DateRangeQuery | null => {
+  const pagingParam = ["cursor", "pageSize"].find((key) => req.query[key] !== undefined);
+  if (pagingParam) {
+    res.status(400).json({
+      status: "error",
+      message: `Query parameter \`${pagingParam}\` is not supported by whole-range reports.`,
+    });
+    return null;
+  }
+  try {
+    return normalizeDateRangeQuery(
+      getFirstQueryParam(req.query.from),
+      getFirstQueryParam(req.query.to)
+    );
+  } catch (error) {
+    res.status(400).json({
+      status: "error",
+      message: error instanceof Error ? error.message : "Invalid date range",
+    });
+    return null;
+  }
+};
+
+const DUTY_REPORT_COLUMNS = [
+  "day",
+  "sadueId",
+  "sadNumber",
+  "currency",
+  "setId",
+  "setSadNumber",
+  "mrn",
+  "type",
+  "base",
+  "rate",
+  "amount",
+  "method",
+  "sumVat",
+  "vatTotal",
+  "vatMismatch",
+] as const;
+
+/** One row per payment line; declarations without lines still get a row so mismatches show up. */
+const buildDutyReportTable = (report: DutyReport): ExportTable => {
+  const rows: ExportTable["rows"][number][] = [];
+  for (const declaration of report.declarations) {
+    const declarationCells = [
+      declaration.day,
+      declaration.sadueId,
+      declaration.sadNumber,
+      declaration.currency,
+    ];
+    const vatCells = [declaration.sumVat, declaration.vatTotal, declaration.vatMismatch];
+    if (declaration.sets.length === 0) {
+      rows.push([...declarationCells, null, null, null, null, null, null, null, null, ...vatCells]);
+      continue;
+    }
+    for (const set of declaration.sets) {
+      for (const line of set.lines) {
+        rows.push([
+          ...declarationCells,
+          set.setId,
+          set.sadNumber,
+          set.mrn,
+          line.type,
+          line.base,
+          line.rate,
+          line.amount,
+          line.method,
+          ...vatCells,
+        ]);
+      }
+    }
+  }
+  return { columns: DUTY_REPORT_COLUMNS, rows };
+};
+
 firebirdRoutes.get("/status", async (_req, res) => {
   try {
     await checkFirebirdConnection();
@@ -85,13 +232,39 @@ firebirdRoutes.get("/mrn/:mrn", async (req, res) => {
       };
     });
 
+    const responseRows = readPlnFlag(req.query)
+      ? await addPlnValuesToWysylki(sanitizedRows)
+      : sanitizedRows;
+
     res.json({
       mrn: normalizedMrn,
       fileCode: normalizedFileCode || undefined,
       limit: effectiveLimit,
-      count: sanitizedRows.length,
-      rows: sanitizedRows,
+      count: responseRows.length,
+      rows: responseRows,
+    });
+  } catch (error) {
+    res.status(503).json({
+      status: "error",
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
+firebirdRoutes.get("/mrn/:mrn/timeline", async (req, res) => {
+  const rawMrn = typeof req.params.mrn === "string" ? req.params.mrn : "";
+  const normalizedMrn = rawMrn.trim();
+
+  if (!normalizedMrn) {
+    res.status(400).json({
+      status: "error",
+      message: "Route parameter `mrn` must be a non-empty string.",
     });
+    return;
+  }
+
+  try {
+    res.json(await fetchMrnTimeline(normalizedMrn));
   } catch (error) {
     res.status(503).json({
       status: "error",
@@ -134,10 +307,13 @@ firebirdRoutes.get("/wysylki/mrn/:mrn", async (req, res) => {
       preferXml,
       includeDocumentXml: !preferXml,
     });
-    const enrichedRows = rows.map((row) => ({
+    const parsedRows = rows.map((row) => ({
       ...row,
       ...parseXmlFieldsForWysylkaRow(row),
     }));
+    const enrichedRows = readPlnFlag(req.query)
+      ? await addPlnValuesToWysylki(parsedRows)
+      : parsedRows;
 
     res.json({
       mrn: normalizedMrn,
@@ -155,6 +331,43 @@ firebirdRoutes.get("/wysylki/mrn/:mrn", async (req, res) => {
   }
 });
 
+// WYSYLKICELINA.DATAUTWORZENIA is not indexed: every page scans messages from the cursor
+// until it fills, so long ranges with few matches (e.g. a rare `fileCode`) are slow.
+firebirdRoutes.get("/wysylki/range", async (req, res) => {
+  const range = readDateRangeQuery(req, res);
+  if (!range) {
+    return;
+  }
+  const normalizedFileCode = getFirstQueryParam(req.query.fileCode).trim();
+  const normalizedFormat = getFirstQueryParam(req.query.format).trim().toLowerCase();
+  const preferXml = normalizedFormat === "xml";
+
+  try {
+    const page = await fetchWysylkiByCreationDateRange(range.from, range.to, {
+      fileCode: normalizedFileCode || undefined,
+      preferXml,
+      includeDocumentXml: !preferXml,
+      includeResponseXml: true,
+      cursor: range.afterId,
+      pageSize: range.pageSize,
+    });
+    const rows = page.rows.map(stripResponseXml);
+
+    res.json({
+      ...page,
+      fileCode: normalizedFileCode || undefined,
+      format: preferXml ? "xml" : normalizedFormat || undefined,
+      count: page.rows.length,
+      rows: readPlnFlag(req.query) ? await addPlnValuesToWysylki(rows) : rows,
+    });
+  } catch (error) {
+    res.status(503).json({
+      status: "error",
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
 firebirdRoutes.get("/wysylki/date/:date", async (req, res) => {
   const rawDate = typeof req.params.date === "string" ? req.params.date : "";
   const normalizedDate = rawDate.trim();
@@ -181,15 +394,7 @@ firebirdRoutes.get("/wysylki/date/:date", async (req, res) => {
       includeDocumentXml: !preferXml,
       includeResponseXml: true,
     });
-    const enrichedRows = rows.map((row) => {
-      const sanitized: Record<string, unknown> = {
-        ...row,
-        ...parseXmlFieldsForWysylkaRow(row),
-      };
-      delete sanitized["odpowiedzXml"];
-      delete sanitized["odpowiedzXmlBytes"];
-      return sanitized;
-    });
+    const enrichedRows = rows.map(stripResponseXml);
 
     const filteredRows =
       normalizedGrn.length > 0
@@ -205,14 +410,43 @@ firebirdRoutes.get("/wysylki/date/:date", async (req, res) => {
             return grnValue === normalizedGrn;
           })
         : enrichedRows;
+    const responseRows = readPlnFlag(req.query)
+      ? await addPlnValuesToWysylki(filteredRows)
+      : filteredRows;
 
     res.json({
       date: normalizedDate,
       fileCode: normalizedFileCode || undefined,
       grn: normalizedGrn || undefined,
       format: preferXml ? "xml" : normalizedFormat || undefined,
-      count: filteredRows.length,
-      rows: filteredRows,
+      count: responseRows.length,
+      rows: responseRows,
+    });
+  } catch (error) {
+    res.status(503).json({
+      status: "error",
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
+firebirdRoutes.get("/rejestr/range", async (req, res) => {
+  const range = readDateRangeQuery(req, res);
+  if (!range) {
+    return;
+  }
+  const includeXml = getFirstQueryParam(req.query.dev).trim().toLowerCase() === "true";
+  const pageOptions = { cursor: range.afterId, pageSize: range.pageSize };
+
+  try {
+    const page = readUsualFlag(req.query)
+      ? await fetchUsualRejestrEntriesByDeclarationDateRange(range.from, range.to, pageOptions)
+      : await fetchRejestrEntriesByDeclarationDateRange(range.from, range.to, pageOptions);
+
+    res.json({
+      ...page,
+      count: page.rows.length,
+      rows: includeXml ? page.rows : page.rows.map(({ xmlDoc, ...rest }) => rest),
     });
   } catch (error) {
     res.status(503).json({
@@ -227,18 +461,7 @@ firebirdRoutes.get("/rejestr/:date", async (req, res) => {
   const normalizedDate = rawDate.trim();
   const rawDevFlag = getFirstQueryParam(req.query.dev);
   const includeXml = rawDevFlag.trim().toLowerCase() === "true";
-  const rawUsualFlag = getFirstQueryParam(req.query.usual);
-  const rawModeFlag = getFirstQueryParam(req.query.mode);
-  const rawFlagFlag = getFirstQueryParam(req.query.flag);
-  const normalizedFlagValue =
-    rawUsualFlag.trim().toLowerCase() ||
-    rawModeFlag.trim().toLowerCase() ||
-    rawFlagFlag.trim().toLowerCase();
-  const hasUsualKey = Object.prototype.hasOwnProperty.call(req.query ?? {}, "usual");
-  const useUsual =
-    normalizedFlagValue === "usual" ||
-    ["1", "true", "yes", "y", "on"].includes(normalizedFlagValue) ||
-    (hasUsualKey && normalizedFlagValue === "");
+  const useUsual = readUsualFlag(req.query);
 
   if (!normalizedDate) {
     res.status(400).json({
@@ -297,4 +520,194 @@ firebirdRoutes.get("/rejestr/:date", async (req, res) => {
   }
 });
 
+firebirdRoutes.get("/duties/report", async (req, res) => {
+  const range = readReportRangeQuery(req, res);
+  if (!range) {
+    return;
+  }
+  const exportFormat = resolveExportFormat(req);
+
+  try {
+    const report = await fetchDutyReport(range.from, range.to);
+    if (exportFormat) {
+      sendTableExport(
+        res,
+        exportFormat,
+        `duty-report-${report.from}_${report.to}`,
+        buildDutyReportTable(report)
+      );
+      return;
+    }
+    res.json(report);
+  } catch (error) {
+    res.status(503).json({
+      status: "error",
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
+firebirdRoutes.get("/rates", async (req, res) => {
+  const currency = getFirstQueryParam(req.query.currency).trim().toUpperCase();
+  const date = getFirstQueryParam(req.query.date).trim();
+  const kind = getFirstQueryParam(req.query.kind).trim();
+
+  if (!/^[A-Z]{3}$/.test(currency)) {
+    res.status(400).json({
+      status: "error",
+      message: "Query parameter `currency` must be a three-letter ISO 4217 code.",
+    });
+    return;
+  }
+  let day: string;
+  try {
+    day = parseIsoDateOnly(date).toISOString().slice(0, 10);
+  } catch (error) {
+    res.status(400).json({
+      status: "error",
+      message: `Query parameter \`date\` is invalid: ${
+        error instanceof Error ? error.message : "expected YYYY-MM-DD"
+      }`,
+    });
+    return;
+  }
+
+  try {
+    const rate = await fetchCurrencyRate(currency, day, kind || undefined);
+    if (!rate) {
+      res.status(404).json({
+        status: "error",
+        message: `No ${currency} rate found for ${day}${kind ? ` (kind ${kind})` : ""}.`,
+      });
+      return;
+    }
+    res.json(rate);
+  } catch (error) {
+    res.status(503).json({
+      status: "error",
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
+firebirdRoutes.get("/sadue/:id", async (req, res) => {
+  const rawId = typeof req.params.id === "string" ? req.params.id.trim() : "";
+  if (!/^\d+$/.test(rawId)) {
+    res.status(400).json({
+      status: "error",
+      message: "Route parameter `id` must be a numeric IDSADUE.",
+    });
+    return;
+  }
+
+  // `include=sets,duties` limits the child tables; without it every part is loaded.
+  const rawInclude = getFirstQueryParam(req.query.include).trim().toLowerCase();
+  const requested = rawInclude
+    ? rawInclude
+        .split(",")
+        .map((part) => part.trim())
+        .filter((part) => part.length > 0 && part !== "header")
+    : [...SADUE_DETAIL_PARTS];
+  const unknown = requested.filter(
+    (part) => !(SADUE_DETAIL_PARTS as readonly string[]).includes(part)
+  );
+  if (unknown.length > 0) {
+    res.status(400).json({
+      status: "error",
+      message: `Unknown include part(s): ${unknown.join(", ")}. Known parts: ${SADUE_DETAIL_PARTS.join(", ")}.`,
+    });
+    return;
+  }
+
+  const id = Number.parseInt(rawId, 10);
+  try {
+    const detail = await fetchSadueDetail(id, requested as SadueDetailPart[]);
+    if (!detail) {
+      res.status(404).json({
+        status: "error",
+        message: `No SAD declaration found for IDSADUE ${id}.`,
+      });
+      return;
+    }
+    res.json(readPlnFlag(req.query) ? await addPlnValuesToSadueDetail(detail) : detail);
+  } catch (error) {
+    res.status(503).json({
+      status: "error",
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
+const MAX_CONTAINERS_PER_REQUEST = 500;
+
+firebirdRoutes.get("/containers/:number", async (req, res) => {
+  const rawNumber = typeof req.params.number === "string" ? req.params.number : "";
+  const container = normalizeContainerNumber(rawNumber);
+
+  if (!container) {
+    res.status(400).json({
+      status: "error",
+      message: "Route parameter `number` must be a non-empty container number.",
+    });
+    return;
+  }
+
+  try {
+    const declarations = (await fetchDeclarationsByContainers([container]))[container] ?? [];
+    res.json({
+      container,
+      count: declarations.length,
+      declarations,
+    });
+  } catch (error) {
+    res.status(503).json({
+      status: "error",
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
+firebirdRoutes.post("/containers", async (req, res) => {
+  const rawContainers = (req.body as { containers?: unknown } | undefined)?.containers;
+  const containers = Array.isArray(rawContainers)
+    ? [
+        ...new Set(
+          rawContainers
+            .map((value) => normalizeContainerNumber(String(value ?? "")))
+            .filter((value) => value.length > 0)
+        ),
+      ]
+    : [];
+
+  if (containers.length === 0) {
+    res.status(400).json({
+      status: "error",
+      message: "Body field `containers` must be a non-empty array of container numbers.",
+    });
+    return;
+  }
+
+  if (containers.length > MAX_CONTAINERS_PER_REQUEST) {
+    res.status(400).json({
+      status: "error",
+      message: `At most ${MAX_CONTAINERS_PER_REQUEST} containers can be queried at once.`,
+    });
+    return;
+  }
+
+  try {
+    const results = await fetchDeclarationsByContainers(containers);
+    res.json({
+      count: containers.length,
+      matched: Object.values(results).filter((declarations) => declarations.length > 0).length,
+      results,
+    });
+  } catch (error) {
+    res.status(503).json({
+      status: "error",
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
 export default firebirdRoutes;
@@ -4,6 +4,12 @@ import {
   findGoogleSheetsTable,
   listGoogleSheetsTables,
 } from "../config/googleSheetsTables";
+import {
+  getContainerSyncColumns,
+  type ContainerSyncColumns,
+} from "../config/googleSheetsConfig";
+import { getLookupConcurrency } from "../config/lookupConcurrencyConfig";
+import { syncContainerColumns } from "../service/google/containerSyncService";
 
 const toResponse = (table: GoogleSheetsTable) => ({
   configKey: table.configKey,
@@ -40,4 +46,65 @@ googleTablesRoutes.get("/:identifier", (req, res) => {
   res.json(toResponse(table));
 });
 
+const isTruthy = (value: unknown): boolean =>
+  value === true || ["1", "true", "yes", "y", "on"].includes(String(value ?? "").toLowerCase());
+
+/** Request overrides win; `null` or "" for a target column skips writing that field. */
+const resolveSyncColumns = (raw: unknown): ContainerSyncColumns => {
+  const defaults = getContainerSyncColumns();
+  const overrides =
+    raw && typeof raw === "object" && !Array.isArray(raw) ? (raw as Record<string, unknown>) : {};
+  const pick = (key: keyof ContainerSyncColumns): string => {
+    if (!(key in overrides)) return defaults[key];
+    const value = overrides[key];
+    return typeof value === "string" ? value.trim() : "";
+  };
+
+  return {
+    container: pick("container") || defaults.container,
+    cen: pick("cen"),
+    stop: pick("stop"),
+    tState: pick("tState"),
+  };
+};
+
+googleTablesRoutes.post("/:identifier/container-sync", async (req, res) => {
+  const identifier = decodeURIComponent(req.params.identifier);
+  const rawBy = req.query.by;
+  const by = typeof rawBy === "string" ? rawBy : undefined;
+
+  const table = findGoogleSheetsTable(identifier, by);
+  if (!table) {
+    res.status(404).json({
+      status: "error",
+      message: `Google Sheets table "${by ? `${identifier} (${by})` : identifier}" not found.`,
+    });
+    return;
+  }
+
+  const body = (req.body ?? {}) as Record<string, unknown>;
+  const columns = resolveSyncColumns(body.columns);
+  if (!columns.cen && !columns.stop && !columns.tState) {
+    res.status(400).json({
+      status: "error",
+      message: "At least one of `columns.cen`, `columns.stop` or `columns.tState` must be set.",
+    });
+    return;
+  }
+
+  try {
+    const summary = await syncContainerColumns(table, {
+      columns,
+      concurrency: getLookupConcurrency("all"),
+      dryRun: isTruthy(req.query.dryRun ?? body.dryRun),
+    });
+    res.json({ table: toResponse(table), ...summary });
+  } catch (error) {
+    res.status(503).json({
+      status: "error",
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
 export default googleTablesRoutes;
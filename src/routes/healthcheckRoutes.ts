@@ -1,5 +1,8 @@
 import { Router } from "express";
+import { getBctSessionStats } from "../service/bctSessionPool";
 import { checkFirebirdConnection } from "../service/firebird";
+import { describeHostPolicies } from "../utils/hostPolicy";
+import { getSingleFlightStats } from "../utils/singleFlight";
 import { getFirstQueryParam } from "./helpers/queryParams";
 
 const healthcheckRoutes = Router();
@@ -57,6 +60,9 @@ healthcheckRoutes.get("/healthcheck", async (req, res) => {
     uptimeSeconds: Math.floor(process.uptime()),
     deep,
     checks,
+    bctSessions: getBctSessionStats(),
+    outbound: describeHostPolicies(),
+    singleFlight: getSingleFlightStats(),
   });
 });
 
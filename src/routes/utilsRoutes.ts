@@ -1,5 +1,6 @@
 import { Router } from "express";
 import basicAuth from "../middleware/basicAuth";
+import { getParserDriftStatuses } from "../utils/parserDrift";
 import { getRequestLogs } from "../utils/requestLogFile";
 
 const utilsRoutes = Router();
@@ -13,4 +14,12 @@ utilsRoutes.get("/logs", basicAuth, async (_req, res, next) => {
   }
 });
 
+utilsRoutes.get("/parsers/status", basicAuth, (_req, res) => {
+  const parsers = getParserDriftStatuses();
+  res.json({
+    status: parsers.some((parser) => parser.status === "drift") ? "drift" : "ok",
+    parsers,
+  });
+});
+
 export default utilsRoutes;
@@ -4,6 +4,7 @@ import cors from "cors";
 import containerRoutes from "./routes";
 import requestLogger from "./middleware/requestLogger";
 import { startHealthcheckWatchdog } from "./utils/healthcheckWatchdog";
+import { startWatchlistScheduler } from "./service/watchlistService";
 
 const app = express();
 app.use(cors());
@@ -16,4 +17,5 @@ const PORT = Number.parseInt(process.env.PORT || "3400", 10);
 app.listen(PORT, () => {
   console.log(`Server running on http://localhost:${PORT}`);
   startHealthcheckWatchdog({ port: PORT });
+  startWatchlistScheduler();
 });
@@ -0,0 +1,188 @@
+import axios from "axios";
+import { CookieJar } from "tough-cookie";
+
+import { getBctSessionConfig } from "../config/bctSessionConfig";
+import { withHostPolicy } from "../utils/hostPolicy";
+import { withRecordReplay } from "../utils/httpRecorder";
+
+const PAGE_URL = "https://ebrama.bct.ictsi.com/vbs-check-container";
+const SUBMIT_URL = "https://ebrama.bct.ictsi.com/Tiles/TileCheckContainerSubmit";
+
+export const BCT_HOST = new URL(PAGE_URL).host;
+
+/** `rejected`: a submit came back as the full page or a login form instead of a result. */
+export type BctRefreshReason = "new" | "expired" | "rejected" | "error";
+
+const config = getBctSessionConfig();
+
+const stats = {
+  submits: 0,
+  refreshes: 0,
+  tokenMissing: 0,
+  refreshesByReason: { new: 0, expired: 0, rejected: 0, error: 0 } as Record<
+    BctRefreshReason,
+    number
+  >,
+};
+
+const storeCookies = async (jar: CookieJar, url: string, cookies: string[] | undefined) => {
+  if (!cookies || cookies.length === 0) return;
+  for (const cookie of cookies) {
+    await jar.setCookie(cookie, url, { ignoreError: true });
+  }
+};
+
+const collectCookieHeader = async (jar: CookieJar, url: string): Promise<string | undefined> => {
+  const cookieStr = await jar.getCookieString(url);
+  return cookieStr.trim() ? cookieStr : undefined;
+};
+
+/**
+ * One eBrama browser-like session: cookies plus the anti-forgery token scraped
+ * from the check-container page. Reused across containers until it expires or
+ * is invalidated.
+ */
+export class BctSession {
+  private readonly client = withHostPolicy(
+    withRecordReplay(
+      axios.create({
+        timeout: 20000,
+        headers: {
+          "User-Agent": "Mozilla/5.0",
+        },
+      })
+    )
+  );
+  private jar = new CookieJar();
+  private token: string | null = null;
+  private issuedAt = 0;
+  private pendingReason: BctRefreshReason = "new";
+
+  constructor(readonly id: number) {}
+
+  /** Marks the session for a refresh before its next submit. */
+  invalidate(reason: Exclude<BctRefreshReason, "new" | "expired">): void {
+    this.token = null;
+    this.pendingReason = reason;
+  }
+
+  /** Refreshes cookies and token when needed; resolves to `false` when the page had no token. */
+  async ensureToken(): Promise<boolean> {
+    const expired = this.token !== null && Date.now() - this.issuedAt > config.maxAgeMs;
+    if (this.token && !expired) {
+      return true;
+    }
+
+    const reason = expired ? "expired" : this.pendingReason;
+    stats.refreshes += 1;
+    stats.refreshesByReason[reason] += 1;
+
+    this.jar = new CookieJar();
+    this.token = null;
+    const { data: page, headers } = await this.client.get<string>(PAGE_URL, {
+      headers: {
+        Accept: "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8",
+      },
+      responseType: "text",
+    });
+
+    const setCookieHeader = headers["set-cookie"];
+    await storeCookies(
+      this.jar,
+      PAGE_URL,
+      Array.isArray(setCookieHeader) ? setCookieHeader : setCookieHeader ? [setCookieHeader] : undefined
+    );
+
+    const tokenMatch = page.match(/name="__RequestVerificationToken"[^>]*value="([^"]+)"/);
+    if (!tokenMatch?.[1]) {
+      stats.tokenMissing += 1;
+      this.pendingReason = "error";
+      return false;
+    }
+
+    this.token = tokenMatch[1];
+    this.issuedAt = Date.now();
+    return true;
+  }
+
+  async submit(cont: string): Promise<string> {
+    if (!this.token) {
+      throw new Error("BCT session has no anti-forgery token");
+    }
+
+    stats.submits += 1;
+    const payload = new URLSearchParams({
+      __RequestVerificationToken: this.token,
+      ContainerNo: cont,
+      "X-Requested-With": "XMLHttpRequest",
+    }).toString();
+
+    const cookieHeader = await collectCookieHeader(this.jar, PAGE_URL);
+    const postHeaders: Record<string, string> = {
+      "Content-Type": "application/x-www-form-urlencoded; charset=UTF-8",
+      "X-Requested-With": "XMLHttpRequest",
+      Referer: PAGE_URL,
+      Accept: "*/*",
+    };
+    if (cookieHeader) {
+      postHeaders.Cookie = cookieHeader;
+    }
+
+    const { data } = await this.client.post<string>(SUBMIT_URL, payload, {
+      headers: postHeaders,
+      responseType: "text",
+    });
+    return data;
+  }
+}
+
+const sessions: BctSession[] = [];
+const idle: BctSession[] = [];
+const waiters: Array<(session: BctSession) => void> = [];
+
+export const acquireBctSession = (): Promise<BctSession> => {
+  const available = idle.pop();
+  if (available) {
+    return Promise.resolve(available);
+  }
+
+  if (sessions.length < config.poolSize) {
+    const session = new BctSession(sessions.length + 1);
+    sessions.push(session);
+    return Promise.resolve(session);
+  }
+
+  return new Promise((resolve, reject) => {
+    const waiter = (session: BctSession) => {
+      clearTimeout(timer);
+      resolve(session);
+    };
+    const timer = setTimeout(() => {
+      waiters.splice(waiters.indexOf(waiter), 1);
+      reject(new Error(`Timed out after ${config.acquireTimeoutMs} ms waiting for a BCT session`));
+    }, config.acquireTimeoutMs);
+    waiters.push(waiter);
+  });
+};
+
+export const releaseBctSession = (session: BctSession): void => {
+  const waiter = waiters.shift();
+  if (waiter) {
+    waiter(session);
+  } else {
+    idle.push(session);
+  }
+};
+
+export const getBctSessionStats = () => ({
+  sessions: sessions.length,
+  busy: sessions.length - idle.length,
+  waiting: waiters.length,
+  maxSessions: config.poolSize,
+  submits: stats.submits,
+  refreshes: stats.refreshes,
+  /** Page loads per submitted container; 1 means no reuse at all. */
+  refreshRate: stats.submits > 0 ? Number((stats.refreshes / stats.submits).toFixed(3)) : 0,
+  refreshesByReason: { ...stats.refreshesByReason },
+  tokenMissing: stats.tokenMissing,
+});
@@ -0,0 +1,120 @@
+import path from "path";
+import {
+  createDebouncedWriter,
+  readJsonFileSync,
+  resolveDataPath,
+  writeJsonFileAtomic,
+} from "../utils/jsonFile";
+
+/** Terminal adapter id, e.g. `baltichub` or `bct`. */
+export type ContainerHistorySource = string;
+
+export type ContainerState = Record<string, string>;
+
+export type ContainerHistoryEntry = {
+  state: ContainerState;
+  firstSeen: string;
+  lastSeen: string;
+  observations: number;
+};
+
+type HistoryFile = Record<string, Partial<Record<ContainerHistorySource, ContainerHistoryEntry[]>>>;
+
+const WRITE_DELAY_MS = 2_000;
+
+const parseLimit = (raw: string | undefined, fallback: number): number => {
+  const parsed = Number.parseInt(raw ?? "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+/** State changes kept per container and source; older ones are dropped first. */
+const MAX_ENTRIES_PER_SOURCE = parseLimit(process.env.CONTAINER_HISTORY_MAX_ENTRIES, 50);
+/** Containers kept in the file; the least recently observed ones are evicted. */
+const MAX_CONTAINERS = parseLimit(process.env.CONTAINER_HISTORY_MAX_CONTAINERS, 5_000);
+
+const historyPath = resolveDataPath(
+  process.env.CONTAINER_HISTORY_PATH,
+  path.join("data", "container-history.json")
+);
+
+let history: HistoryFile | null = null;
+
+const loadHistory = (): HistoryFile => {
+  if (!history) {
+    const parsed = readJsonFileSync<HistoryFile>(historyPath, "history");
+    history = parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : {};
+  }
+  return history;
+};
+
+const scheduleWrite = createDebouncedWriter(
+  () => writeJsonFileAtomic(historyPath, loadHistory(), "history"),
+  WRITE_DELAY_MS
+);
+
+const toState = (snapshot: Record<string, string | undefined>): ContainerState => {
+  const state: ContainerState = {};
+  for (const key of Object.keys(snapshot).sort()) {
+    state[key] = snapshot[key] ?? "";
+  }
+  return state;
+};
+
+const isSameState = (a: ContainerState, b: ContainerState): boolean => {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  for (const key of keys) {
+    if ((a[key] ?? "") !== (b[key] ?? "")) {
+      return false;
+    }
+  }
+  return true;
+};
+
+/**
+ * Records a snapshot observed upstream. Repeated identical snapshots only move
+ * `lastSeen` forward; a different snapshot opens a new timeline entry.
+ */
+export const recordContainerObservation = (
+  source: ContainerHistorySource,
+  cont: string,
+  snapshot: Record<string, string | undefined>,
+  observedAt: Date = new Date()
+): void => {
+  const store = loadHistory();
+  const timestamp = observedAt.toISOString();
+  const state = toState(snapshot);
+  const perContainer = store[cont] ?? {};
+  // Re-inserting keeps the keys ordered from least to most recently observed.
+  delete store[cont];
+  store[cont] = perContainer;
+  const entries = (perContainer[source] ??= []);
+  const last = entries[entries.length - 1];
+
+  if (last && isSameState(last.state, state)) {
+    last.lastSeen = timestamp;
+    last.observations += 1;
+  } else {
+    entries.push({ state, firstSeen: timestamp, lastSeen: timestamp, observations: 1 });
+    if (entries.length > MAX_ENTRIES_PER_SOURCE) {
+      entries.splice(0, entries.length - MAX_ENTRIES_PER_SOURCE);
+    }
+  }
+
+  const containers = Object.keys(store);
+  for (const evicted of containers.slice(0, Math.max(containers.length - MAX_CONTAINERS, 0))) {
+    delete store[evicted];
+  }
+
+  scheduleWrite();
+};
+
+export const getContainerHistory = (
+  cont: string,
+  source?: ContainerHistorySource
+): Partial<Record<ContainerHistorySource, ContainerHistoryEntry[]>> => {
+  const perContainer = loadHistory()[cont] ?? {};
+  if (source) {
+    return perContainer[source] ? { [source]: perContainer[source] } : {};
+  }
+  return perContainer;
+};
@@ -0,0 +1,247 @@
+import {
+  fetchBctForContainerWithOutcome,
+  fetchContainerInfoBatchWithOutcome,
+  fetchContainerInfoWithOutcome,
+} from "./containerService";
+import { recordContainerObservation } from "./containerHistory";
+import {
+  partitionCachedLookups,
+  storeCachedLookup,
+  type LookupCacheStatus,
+} from "./lookupCache";
+import { isSettledOutcome } from "./lookupOutcome";
+import { bctInfoToRecord, toObservedState } from "./terminals";
+import {
+  AdaptiveConcurrency,
+  mapWithConcurrency,
+  type ConcurrencyLimit,
+  type ConcurrencySignal,
+} from "../utils/concurrency";
+import type {
+  BctInfo,
+  ContainerDetails,
+  ContainerInfo,
+  LookupOutcome,
+} from "../types/index";
+
+export type ContainerLookupEntry<V> = {
+  container: string;
+  /** `null` when every upstream attempt failed. */
+  info: V | null;
+  cache: LookupCacheStatus;
+  outcome: LookupOutcome;
+};
+
+export type ContainerLookupOptions<V> = {
+  /** Fixed number of parallel upstream calls, or an adaptive limit fed by the lookup outcomes. */
+  concurrency: ConcurrencyLimit;
+  fresh?: boolean;
+  /** Called as soon as a container is resolved (from cache or upstream). */
+  onResult?: (entry: ContainerLookupEntry<V>) => void;
+  /** Checked before every upstream call; remaining containers are skipped once it returns true. */
+  shouldStop?: () => boolean;
+};
+
+export type BaltichubLookupOptions = ContainerLookupOptions<ContainerInfo> & {
+  /** Enables multi-id requests with the given number of containers per request. */
+  batchSize?: number;
+};
+
+export const CONTAINER_DETAIL_FIELDS = [
+  "inboundMode",
+  "carrierSeal",
+  "vetSeal",
+  "customsSeal",
+  "timeIn",
+  "timeOut",
+  "raw",
+] as const;
+
+export type ContainerDetailField = (typeof CONTAINER_DETAIL_FIELDS)[number];
+
+export type BaltichubMapEntry = {
+  cen: string;
+  stop: string;
+  t_state?: string;
+} & Partial<Record<ContainerDetailField, ContainerDetails[ContainerDetailField] | null>>;
+export type BctMapEntry = { status: string; cen?: string };
+
+export const toBaltichubMapEntry = (
+  info: ContainerInfo,
+  wantT: boolean,
+  detailFields: readonly ContainerDetailField[] = []
+): BaltichubMapEntry => {
+  const base = { cen: info.cen ?? "", stop: info.stop ?? "" };
+  const entry: BaltichubMapEntry = wantT ? { ...base, t_state: info.t_state ?? "" } : base;
+  for (const field of detailFields) {
+    entry[field] = info.details?.[field] ?? null;
+  }
+  return entry;
+};
+
+export const toBctMapEntry = (info: BctInfo): BctMapEntry | null =>
+  info.status || info.cen ? { status: info.status ?? "", cen: info.cen } : null;
+
+const cachedOutcome = (found: boolean): LookupOutcome => ({
+  state: found ? "found" : "not_found",
+  attempts: 0,
+});
+
+const toConcurrencySignal = (outcome: LookupOutcome): ConcurrencySignal => {
+  if (outcome.state === "timeout" || outcome.state === "upstream_blocked") {
+    return "backoff";
+  }
+  return isSettledOutcome(outcome) ? "success" : "neutral";
+};
+
+const recordConcurrencySignal = (
+  limit: ConcurrencyLimit,
+  outcome: LookupOutcome,
+  startedAt: number
+) => {
+  if (limit instanceof AdaptiveConcurrency) {
+    limit.record(toConcurrencySignal(outcome), Date.now() - startedAt);
+  }
+};
+
+const logSettledConcurrency = (source: string, limit: ConcurrencyLimit) => {
+  if (limit instanceof AdaptiveConcurrency) {
+    const { settled, min, max, peak, backoffs } = limit.report();
+    console.log(
+      `[lookup] ${source} concurrency settled at ${settled} (range ${min}-${max}, peak ${peak}, ${backoffs} backoffs)`
+    );
+  }
+};
+
+const chunk = <T>(items: readonly T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+};
+
+const orderByInput = <V>(
+  containers: readonly string[],
+  entries: Map<string, ContainerLookupEntry<V>>
+): ContainerLookupEntry<V>[] =>
+  containers
+    .map((cont) => entries.get(cont))
+    .filter((entry): entry is ContainerLookupEntry<V> => Boolean(entry));
+
+export async function lookupBaltichubContainers(
+  containers: readonly string[],
+  options: BaltichubLookupOptions
+): Promise<ContainerLookupEntry<ContainerInfo>[]> {
+  const entries = new Map<string, ContainerLookupEntry<ContainerInfo>>();
+  const emit = (entry: ContainerLookupEntry<ContainerInfo>) => {
+    entries.set(entry.container, entry);
+    options.onResult?.(entry);
+  };
+  const emitFetched = (cont: string, info: ContainerInfo | null, outcome: LookupOutcome) => {
+    if (info) {
+      storeCachedLookup("baltichub", cont, info);
+    }
+    // A miss carries an empty info; recording it would look like the state was cleared.
+    if (info && outcome.state === "found") {
+      recordContainerObservation("baltichub", cont, {
+        cen: info.cen,
+        stop: info.stop,
+        t_state: info.t_state,
+      });
+    }
+    emit({ container: cont, info, cache: { hit: false, ageMs: 0 }, outcome });
+  };
+  const stopped = () => options.shouldStop?.() === true;
+
+  const { hits, misses } = partitionCachedLookups("baltichub", containers, options.fresh === true);
+  for (const [cont, cached] of Object.entries(hits)) {
+    const { cen, stop, t_state } = cached.value;
+    emit({
+      container: cont,
+      info: cached.value,
+      cache: { hit: true, ageMs: cached.ageMs },
+      outcome: cachedOutcome(Boolean(cen || stop || t_state)),
+    });
+  }
+
+  let pending = misses;
+  if (options.batchSize) {
+    const missing = await mapWithConcurrency(
+      chunk(misses, options.batchSize),
+      options.concurrency,
+      async (batch) => {
+        if (stopped()) return [];
+        const startedAt = Date.now();
+        const { info, outcome } = await fetchContainerInfoBatchWithOutcome(batch);
+        recordConcurrencySignal(options.concurrency, outcome, startedAt);
+        // No CSV came back (block page, timeout, open circuit): retrying every id on its own
+        // would only hit the struggling host harder, so the batch failure stands for all of them.
+        if (!isSettledOutcome(outcome)) {
+          for (const cont of batch) {
+            emitFetched(cont, null, outcome);
+          }
+          return [];
+        }
+        for (const [cont, value] of Object.entries(info)) {
+          emitFetched(cont, value, { ...outcome, state: "found" });
+        }
+        return batch.filter((cont) => !(cont in info));
+      }
+    );
+    pending = missing.flat();
+  }
+
+  await mapWithConcurrency(pending, options.concurrency, async (cont) => {
+    if (stopped()) return;
+    const startedAt = Date.now();
+    const { info, outcome } = await fetchContainerInfoWithOutcome(cont);
+    recordConcurrencySignal(options.concurrency, outcome, startedAt);
+    emitFetched(cont, info, outcome);
+  });
+
+  logSettledConcurrency("baltichub", options.concurrency);
+  return orderByInput(containers, entries);
+}
+
+export async function lookupBctContainers(
+  containers: readonly string[],
+  options: ContainerLookupOptions<BctInfo>
+): Promise<ContainerLookupEntry<BctInfo>[]> {
+  const entries = new Map<string, ContainerLookupEntry<BctInfo>>();
+  const emit = (entry: ContainerLookupEntry<BctInfo>) => {
+    entries.set(entry.container, entry);
+    options.onResult?.(entry);
+  };
+
+  const { hits, misses } = partitionCachedLookups("bct", containers, options.fresh === true);
+  for (const [cont, cached] of Object.entries(hits)) {
+    emit({
+      container: cont,
+      info: cached.value,
+      cache: { hit: true, ageMs: cached.ageMs },
+      outcome: cachedOutcome(Boolean(cached.value.cen || cached.value.status)),
+    });
+  }
+
+  await mapWithConcurrency(misses, options.concurrency, async (cont) => {
+    if (options.shouldStop?.() === true) return;
+    const startedAt = Date.now();
+    const { info, outcome } = await fetchBctForContainerWithOutcome(cont);
+    recordConcurrencySignal(options.concurrency, outcome, startedAt);
+    // Failed lookups are not cached so a blocked terminal doesn't look like "not found" later.
+    if (!isSettledOutcome(outcome)) {
+      emit({ container: cont, info: null, cache: { hit: false, ageMs: 0 }, outcome });
+      return;
+    }
+
+    storeCachedLookup("bct", cont, info);
+    if (info.cen || info.status) {
+      recordContainerObservation("bct", cont, toObservedState(bctInfoToRecord(cont, info)));
+    }
+    emit({ container: cont, info, cache: { hit: false, ageMs: 0 }, outcome });
+  });
+
+  logSettledConcurrency("bct", options.concurrency);
+  return orderByInput(containers, entries);
+}
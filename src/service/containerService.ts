@@ -1,114 +1,209 @@
-import axios from "axios";
-import { CookieJar } from "tough-cookie";
-
 import { http } from "../utils/http";
-import { buildContainerInfoFromCsv } from "../utils/csv";
-import { extractContainerInfoFromBctHtml } from "../utils/bct";
+import { CircuitOpenError, isCircuitOpen } from "../utils/hostPolicy";
+import { buildContainerDetailsFromCsv, buildContainerInfoFromCsv } from "../utils/csv";
+import { extractContainerInfoFromBctHtml, isBctSessionRejectedHtml } from "../utils/bct";
+import { createSingleFlight } from "../utils/singleFlight";
 import { sleep } from "../utils/time";
-import type { BctInfo, ContainerInfo } from "../types/index";
+import { acquireBctSession, releaseBctSession, type BctSession } from "./bctSessionPool";
+import { createOutcomeTracker } from "./lookupOutcome";
+import type {
+  BctInfo,
+  ContainerCsvInfo,
+  ContainerDetails,
+  ContainerInfo,
+  LookupOutcome,
+} from "../types/index";
 
-export async function fetchContainerInfo(
-  cont: string,
-  retries = 3
-): Promise<Record<string, ContainerInfo>> {
+export type ContainerCsvRecord = ContainerCsvInfo & { details?: ContainerDetails };
+
+const BALTICHUB_MULTI_URL = "https://baltichub.com/api/multi";
+
+export const BALTICHUB_HOST = new URL(BALTICHUB_MULTI_URL).host;
+
+const isBaltichubBlockPage = (data: unknown): boolean =>
+  !data || (typeof data === "string" && data.includes("<div"));
+
+const buildBaltichubUrl = (ids: readonly string[]): string =>
+  `${BALTICHUB_MULTI_URL}?csv=true&ids=${JSON.stringify(ids)}`;
+
+const toContainerInfo = (info: Partial<ContainerCsvRecord>): ContainerInfo => ({
+  cen: info.cen,
+  t_state: info.t_state,
+  stop: info.stop,
+  ...(info.details ? { details: info.details } : {}),
+});
+
+export type BaltichubCsvResult = {
+  info: Record<string, ContainerCsvRecord> | null;
+  /** Outcome of the request itself; `found` only means a CSV came back. */
+  outcome: LookupOutcome;
+};
+
+const baltichubFlights = createSingleFlight<BaltichubCsvResult>("baltichub");
+const bctFlights = createSingleFlight<{ info: BctInfo; outcome: LookupOutcome }>("bct");
+
+const requestBaltichubCsv = async (
+  ids: readonly string[],
+  retries: number
+): Promise<BaltichubCsvResult> => {
+  const tracker = createOutcomeTracker();
   for (let attempt = 1; attempt <= retries; attempt++) {
+    tracker.attempt();
     try {
-      const url = `https://baltichub.com/api/multi?csv=true&ids=["${cont}"]`;
-      const { data } = await http.get<string>(url, {
+      const { data } = await http.get<string>(buildBaltichubUrl(ids), {
         headers: { Accept: "text/csv, */*;q=0.5" },
         responseType: "text",
         timeout: 20000,
+        isBlockedResponse: isBaltichubBlockPage,
       });
 
-      if (!data || data.includes("<div")) {
+      if (isBaltichubBlockPage(data)) {
+        tracker.fail(
+          "upstream_blocked",
+          data ? "Received an HTML page instead of CSV" : "Received an empty response"
+        );
+        // No point waiting out the block page once the breaker has given up on the host.
+        if (isCircuitOpen(BALTICHUB_HOST)) break;
         if (attempt < retries) await sleep(10000);
       } else {
-
-        const info = buildContainerInfoFromCsv(data);
-        const i = info[cont] || {};
-        return { [cont]: { cen: i.cen, t_state: i.t_state, stop: i.stop } };
+        const info: Record<string, ContainerCsvRecord> = buildContainerInfoFromCsv(data);
+        const details = buildContainerDetailsFromCsv(data);
+        for (const [cont, entry] of Object.entries(info)) {
+          if (details[cont]) entry.details = details[cont];
+        }
+        return { info, outcome: tracker.settle("found") };
       }
     } catch (err) {
+      tracker.failWith(err);
+      if (err instanceof CircuitOpenError) break;
       if (attempt < retries) await sleep(2000);
     }
   }
-  return {};
-}
-
-const storeCookies = async (jar: CookieJar, url: string, cookies: string[] | undefined) => {
-  if (!cookies || cookies.length === 0) return;
-  for (const cookie of cookies) {
-    await jar.setCookie(cookie, url, { ignoreError: true });
-  }
+  return { info: null, outcome: tracker.giveUp() };
 };
 
-const collectCookieHeader = async (jar: CookieJar, url: string): Promise<string | undefined> => {
-  const cookieStr = await jar.getCookieString(url);
-  return cookieStr.trim() ? cookieStr : undefined;
-};
+/** Concurrent requests for the same ids share one upstream call. */
+export const fetchBaltichubCsvWithOutcome = (
+  ids: readonly string[],
+  retries = 3
+): Promise<BaltichubCsvResult> =>
+  baltichubFlights.run(`${ids.join(",")}|${retries}`, () => requestBaltichubCsv(ids, retries));
 
-export async function fetchBctForContainer(
-  cont: string,
+export const fetchBaltichubCsv = async (
+  ids: readonly string[],
   retries = 3
-): Promise<BctInfo> {
-  const pageUrl = "https://ebrama.bct.ictsi.com/vbs-check-container";
-  const submitUrl = "https://ebrama.bct.ictsi.com/Tiles/TileCheckContainerSubmit";
-  const client = axios.create({
-    timeout: 20000,
-    headers: {
-      "User-Agent": "Mozilla/5.0",
-    },
-  });
+): Promise<Record<string, ContainerCsvRecord> | null> =>
+  (await fetchBaltichubCsvWithOutcome(ids, retries)).info;
 
-  for (let attempt = 1; attempt <= retries; attempt++) {
-    try {
-      const jar = new CookieJar();
-      const { data: page, headers } = await client.get<string>(pageUrl, {
-        headers: {
-          Accept: "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8",
-        },
-        responseType: "text",
-      });
+const toContainerOutcome = (outcome: LookupOutcome, found: boolean): LookupOutcome => ({
+  ...outcome,
+  state: found ? "found" : "not_found",
+});
 
-      const setCookieHeader = headers["set-cookie"];
-      await storeCookies(jar, pageUrl, Array.isArray(setCookieHeader) ? setCookieHeader : setCookieHeader ? [setCookieHeader] : undefined);
+export async function fetchContainerInfoWithOutcome(
+  cont: string,
+  retries = 3
+): Promise<{ info: ContainerInfo | null; outcome: LookupOutcome }> {
+  const { info, outcome } = await fetchBaltichubCsvWithOutcome([cont], retries);
+  if (!info) {
+    return { info: null, outcome };
+  }
+  return {
+    info: toContainerInfo(info[cont] || {}),
+    outcome: toContainerOutcome(outcome, Boolean(info[cont])),
+  };
+}
 
-      const tokenMatch = page.match(/name="__RequestVerificationToken"[^>]*value="([^"]+)"/);
-      const token = tokenMatch?.[1];
-      if (!token) {
-        throw new Error("Missing anti-forgery token");
-      }
+export async function fetchContainerInfo(
+  cont: string,
+  retries = 3
+): Promise<Record<string, ContainerInfo>> {
+  const { info } = await fetchContainerInfoWithOutcome(cont, retries);
+  return info ? { [cont]: info } : {};
+}
 
-      const payload = new URLSearchParams({
-        __RequestVerificationToken: token,
-        ContainerNo: cont,
-        "X-Requested-With": "XMLHttpRequest",
-      }).toString();
-
-      const cookieHeader = await collectCookieHeader(jar, pageUrl);
-      const postHeaders: Record<string, string> = {
-        "Content-Type": "application/x-www-form-urlencoded; charset=UTF-8",
-        "X-Requested-With": "XMLHttpRequest",
-        Referer: pageUrl,
-        Accept: "*/*",
-      };
-      if (cookieHeader) {
-        postHeaders.Cookie = cookieHeader;
-      }
+/**
+ * Looks up several containers with a single Baltichub multi-id request.
+ * Only containers present in the returned CSV are included in `info`.
+ */
+export async function fetchContainerInfoBatchWithOutcome(
+  conts: readonly string[],
+  retries = 3
+): Promise<{ info: Record<string, ContainerInfo>; outcome: LookupOutcome }> {
+  if (conts.length === 0) {
+    return { info: {}, outcome: { state: "not_found", attempts: 0 } };
+  }
 
-      const { data: result } = await client.post<string>(submitUrl, payload, {
-        headers: postHeaders,
-        responseType: "text",
-      });
+  const { info, outcome } = await fetchBaltichubCsvWithOutcome(conts, retries);
+  const result: Record<string, ContainerInfo> = {};
+  for (const cont of conts) {
+    const entry = info?.[cont];
+    if (entry) {
+      result[cont] = toContainerInfo(entry);
+    }
+  }
+  return { info: result, outcome };
+}
+
+export async function fetchContainerInfoBatch(
+  conts: readonly string[],
+  retries = 3
+): Promise<Record<string, ContainerInfo>> {
+  return (await fetchContainerInfoBatchWithOutcome(conts, retries)).info;
+}
 
-      const info = extractContainerInfoFromBctHtml(result);
-      if (info.cen || info.status) {
-        return info;
+/**
+ * Looks up one container on eBrama using a pooled session. A submit answered
+ * with a page instead of a result invalidates the session so the next attempt
+ * starts with a fresh token; an empty result is a settled "not found".
+ */
+async function requestBctForContainer(
+  cont: string,
+  retries: number
+): Promise<{ info: BctInfo; outcome: LookupOutcome }> {
+  const tracker = createOutcomeTracker();
+  for (let attempt = 1; attempt <= retries; attempt++) {
+    tracker.attempt();
+    let retryDelayMs = 2000;
+    let session: BctSession | null = null;
+    try {
+      session = await acquireBctSession();
+      if (!(await session.ensureToken())) {
+        tracker.fail("token_missing", "Missing anti-forgery token");
+      } else {
+        const result = await session.submit(cont);
+        if (isBctSessionRejectedHtml(result)) {
+          session.invalidate("rejected");
+          tracker.fail("token_missing", "eBrama rejected the session");
+          retryDelayMs = 1500;
+        } else {
+          const info = extractContainerInfoFromBctHtml(result);
+          return { info, outcome: tracker.settle(info.cen || info.status ? "found" : "not_found") };
+        }
       }
-      if (attempt < retries) await sleep(1500);
     } catch (e) {
-      if (attempt < retries) await sleep(2000);
+      session?.invalidate("error");
+      tracker.failWith(e);
+      if (e instanceof CircuitOpenError) break;
+    } finally {
+      if (session) releaseBctSession(session);
     }
+    if (attempt < retries) await sleep(retryDelayMs);
   }
-  return {};
+  return { info: {}, outcome: tracker.giveUp() };
+}
+
+/** Concurrent lookups of the same container share one eBrama submit. */
+export function fetchBctForContainerWithOutcome(
+  cont: string,
+  retries = 3
+): Promise<{ info: BctInfo; outcome: LookupOutcome }> {
+  return bctFlights.run(`${cont}|${retries}`, () => requestBctForContainer(cont, retries));
+}
+
+export async function fetchBctForContainer(
+  cont: string,
+  retries = 3
+): Promise<BctInfo> {
+  return (await fetchBctForContainerWithOutcome(cont, retries)).info;
 }
@@ -0,0 +1,343 @@
+import type { Attachment, ResultSet, Transaction } from "node-firebird-driver";
+import {
+  closeResultSetQuietly,
+  rollbackQuietly,
+  withFirebirdAttachment,
+} from "./connection";
+import { resolveMessageCode } from "./messageCodes";
+import { coerceToString, formatDateValue, normalizeId } from "./rowValues";
+import { sadueMessageFilters, type WysylkaFilter } from "./sadueMessageFilters";
+import { mapWysylkaRowWithAllColumns } from "./wysylkaMapper";
+
+type FirebirdRow = Record<string, unknown>;
+
+export type ContainerDeclarationMessage = {
+  idWysylki: number | null;
+  messageCode: string | null;
+  fileName: string | null;
+  createdAt: string | null;
+};
+
+export type ContainerDeclaration = {
+  /** `sadue` for SAD/ZC declarations, `ds` for entry summary declarations (DS_DEKLSKROC). */
+  source: "sadue" | "ds";
+  sadueId: number | null;
+  dsId: number | null;
+  sadNumber: string | null;
+  mrn: string | null;
+  declarationDate: string | null;
+  latestMessage: ContainerDeclarationMessage | null;
+};
+
+const MAX_KEYS_PER_QUERY = 50;
+
+const buildPlaceholders = (count: number): string => new Array(count).fill("?").join(", ");
+
+// Inputs are normalised ISO 6346 numbers, so the raw column is compared to keep the
+// NRKONTENERA index usable.
+const SADUE_BY_CONTAINERS_SQL = (count: number) => `
+  SELECT
+    k.NRKONTENERA AS CONTAINER,
+    s.IDSADUE,
+    s.GUIDSADU,
+    s.DATADEKL,
+    COALESCE(z.CELINANRSADU, s.NRAKT, s.DODIDSADU) AS SAD_NUMBER,
+    z.MRN
+  FROM SADUEKONTENERY k
+  JOIN SADUE s ON s.IDSADUE = k.IDSADU
+  LEFT JOIN SADUEZESTAWY z ON z.IDMSADUE = s.IDSADUE
+  WHERE k.NRKONTENERA IN (${buildPlaceholders(count)})
+  ORDER BY s.DATADEKL DESC, s.IDSADUE DESC
+`;
+
+const DS_BY_CONTAINERS_SQL = (count: number) => `
+  SELECT
+    k.NUMERKONTENERA AS CONTAINER,
+    d.ID,
+    d.GUID,
+    d.NRWLASNY,
+    d.MRN,
+    d.DATADEKLARACJI
+  FROM DS_KONTENERY k
+  JOIN DS_DEKLSKROC d ON d.ID = k.IDDS
+  WHERE k.NUMERKONTENERA IN (${buildPlaceholders(count)})
+  ORDER BY d.DATADEKLARACJI DESC, d.ID DESC
+`;
+
+const LATEST_WYSYLKA_IDS_SQL = ({ column, condition }: WysylkaFilter) => `
+  SELECT
+    r.${column} AS DOCUMENT_KEY,
+    MAX(r.ID_WYSYLKI) AS ID_WYSYLKI
+  FROM WYSYLKICELINA r
+  WHERE ${condition}
+  GROUP BY r.${column}
+`;
+
+const WYSYLKI_BY_IDS_SQL = (count: number) => `
+  SELECT
+    r.ID_WYSYLKI,
+    r.NAZWAPLIKU,
+    r.DATAUTWORZENIA,
+    r.NRMRNDOK,
+    r.ODPOWIEDZXML
+  FROM WYSYLKICELINA r
+  WHERE r.ID_WYSYLKI IN (${buildPlaceholders(count)})
+`;
+
+const executeRowsQuery = async (
+  attachment: Attachment,
+  transaction: Transaction,
+  sql: string,
+  parameters: unknown[]
+): Promise<FirebirdRow[]> => {
+  let resultSet: ResultSet | null = null;
+  try {
+    resultSet = await attachment.executeQuery(transaction, sql, parameters);
+    const rows = await resultSet.fetchAsObject<FirebirdRow>();
+    return rows ?? [];
+  } finally {
+    await closeResultSetQuietly(resultSet);
+  }
+};
+
+const chunk = <T>(items: readonly T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+};
+
+const normalizeContainerKey = (value: string): string =>
+  value.replace(/\s+/g, "").toUpperCase();
+
+type LatestMessage = { message: ContainerDeclarationMessage; mrn: string | null };
+
+const toLatestMessage = async (
+  row: FirebirdRow,
+  attachment: Attachment,
+  transaction: Transaction
+): Promise<LatestMessage> => {
+  const fileName = coerceToString(row["NAZWAPLIKU"]);
+  let messageCode = resolveMessageCode(fileName);
+  if (!messageCode) {
+    const mapped = await mapWysylkaRowWithAllColumns(row, attachment, transaction, {
+      includeDocumentXml: false,
+      includeResponseXml: true,
+    });
+    messageCode = resolveMessageCode(null, coerceToString(mapped["odpowiedzXml"]));
+  }
+
+  return {
+    message: {
+      idWysylki: normalizeId(row["ID_WYSYLKI"]),
+      messageCode,
+      fileName,
+      createdAt: formatDateValue(row["DATAUTWORZENIA"]),
+    },
+    mrn: coerceToString(row["NRMRNDOK"]),
+  };
+};
+
+/**
+ * Newest WYSYLKICELINA message per declaration. `toOwner` maps the key of a
+ * filter match to the declaration it belongs to; matches are looked up in
+ * batches rather than per declaration.
+ */
+const fetchLatestMessages = async (
+  attachment: Attachment,
+  transaction: Transaction,
+  filters: readonly WysylkaFilter[],
+  toOwner: (column: WysylkaFilter["column"], key: string) => string | null
+): Promise<Map<string, LatestMessage>> => {
+  const latestIdByOwner = new Map<string, number>();
+  for (const filter of filters) {
+    const rows = await executeRowsQuery(
+      attachment,
+      transaction,
+      LATEST_WYSYLKA_IDS_SQL(filter),
+      filter.parameters
+    );
+    for (const row of rows) {
+      const key = coerceToString(row["DOCUMENT_KEY"]);
+      const owner = key ? toOwner(filter.column, key) : null;
+      const idWysylki = normalizeId(row["ID_WYSYLKI"]);
+      if (owner && idWysylki !== null && idWysylki > (latestIdByOwner.get(owner) ?? -Infinity)) {
+        latestIdByOwner.set(owner, idWysylki);
+      }
+    }
+  }
+
+  const messagesById = new Map<number, LatestMessage>();
+  for (const batch of chunk([...new Set(latestIdByOwner.values())], MAX_KEYS_PER_QUERY)) {
+    const rows = await executeRowsQuery(
+      attachment,
+      transaction,
+      WYSYLKI_BY_IDS_SQL(batch.length),
+      batch
+    );
+    for (const row of rows) {
+      const idWysylki = normalizeId(row["ID_WYSYLKI"]);
+      if (idWysylki !== null) {
+        messagesById.set(idWysylki, await toLatestMessage(row, attachment, transaction));
+      }
+    }
+  }
+
+  const result = new Map<string, LatestMessage>();
+  for (const [owner, idWysylki] of latestIdByOwner) {
+    const latest = messagesById.get(idWysylki);
+    if (latest) {
+      result.set(owner, latest);
+    }
+  }
+  return result;
+};
+
+/**
+ * Returns the declarations linked to each container through SADUEKONTENERY
+ * (SAD) and DS_KONTENERY (entry summary), newest first. Every requested
+ * container is present in the result, with an empty list when nothing matched.
+ */
+export const fetchDeclarationsByContainers = async (
+  containers: readonly string[]
+): Promise<Record<string, ContainerDeclaration[]>> => {
+  const keys = [...new Set(containers.map(normalizeContainerKey).filter((key) => key.length > 0))];
+  const result: Record<string, ContainerDeclaration[]> = {};
+  for (const key of keys) {
+    result[key] = [];
+  }
+  if (keys.length === 0) {
+    return result;
+  }
+
+  return withFirebirdAttachment(async ({ attachment }) => {
+    let transaction: Transaction | null = null;
+
+    try {
+      transaction = await attachment.startTransaction();
+      const activeTransaction = transaction;
+
+      const sadueRows: FirebirdRow[] = [];
+      const dsRows: FirebirdRow[] = [];
+      for (const batch of chunk(keys, MAX_KEYS_PER_QUERY)) {
+        sadueRows.push(
+          ...(await executeRowsQuery(
+            attachment,
+            activeTransaction,
+            SADUE_BY_CONTAINERS_SQL(batch.length),
+            batch
+          ))
+        );
+        dsRows.push(
+          ...(await executeRowsQuery(
+            attachment,
+            activeTransaction,
+            DS_BY_CONTAINERS_SQL(batch.length),
+            batch
+          ))
+        );
+      }
+
+      // SADUEZESTAWY can add one row per set; keep the first row per container and declaration.
+      const seen = new Set<string>();
+      const firstRowPerDeclaration = (
+        rows: FirebirdRow[],
+        source: ContainerDeclaration["source"],
+        idColumn: string
+      ) =>
+        rows.flatMap((row) => {
+          const container = normalizeContainerKey(coerceToString(row["CONTAINER"]) ?? "");
+          const id = normalizeId(row[idColumn]);
+          if (!result[container] || id === null || seen.has(`${container}:${source}:${id}`)) {
+            return [];
+          }
+          seen.add(`${container}:${source}:${id}`);
+          return [{ container, id, row }];
+        });
+      const sadueMatches = firstRowPerDeclaration(sadueRows, "sadue", "IDSADUE");
+      const dsMatches = firstRowPerDeclaration(dsRows, "ds", "ID");
+
+      // SADUE messages follow the same matching rule as the declaration detail.
+      const sadueIdByGuid = new Map<string, number>();
+      const sadueKeys = sadueMatches.map(({ id, row }) => {
+        const guid = coerceToString(row["GUIDSADU"]);
+        if (guid) {
+          sadueIdByGuid.set(guid, id);
+        }
+        return { id, guid };
+      });
+      const sadueMessages = await fetchLatestMessages(
+        attachment,
+        activeTransaction,
+        chunk(sadueKeys, MAX_KEYS_PER_QUERY).flatMap((batch) => sadueMessageFilters(batch)),
+        (column, key) => {
+          if (column === "IDDOKUMENTUZRD") {
+            return key;
+          }
+          const sadueId = sadueIdByGuid.get(key);
+          return sadueId === undefined ? null : String(sadueId);
+        }
+      );
+      const dsGuids = [
+        ...new Set(dsMatches.flatMap(({ row }) => coerceToString(row["GUID"]) ?? [])),
+      ];
+      const dsMessages = await fetchLatestMessages(
+        attachment,
+        activeTransaction,
+        chunk(dsGuids, MAX_KEYS_PER_QUERY).map((batch) => ({
+          column: "GUIDDOKUMENTUZRD",
+          condition: `r.GUIDDOKUMENTUZRD IN (${buildPlaceholders(batch.length)})`,
+          parameters: batch,
+        })),
+        (_column, key) => key
+      );
+
+      for (const { container, id: sadueId, row } of sadueMatches) {
+        const latest = sadueMessages.get(String(sadueId));
+        result[container].push({
+          source: "sadue",
+          sadueId,
+          dsId: null,
+          sadNumber: coerceToString(row["SAD_NUMBER"]),
+          mrn: coerceToString(row["MRN"]) ?? latest?.mrn ?? null,
+          declarationDate: formatDateValue(row["DATADEKL"]),
+          latestMessage: latest?.message ?? null,
+        });
+      }
+
+      for (const { container, id: dsId, row } of dsMatches) {
+        const guid = coerceToString(row["GUID"]);
+        const latest = guid ? dsMessages.get(guid) : undefined;
+        result[container].push({
+          source: "ds",
+          sadueId: null,
+          dsId,
+          sadNumber: coerceToString(row["NRWLASNY"]),
+          mrn: coerceToString(row["MRN"]) ?? latest?.mrn ?? null,
+          declarationDate: formatDateValue(row["DATADEKLARACJI"]),
+          latestMessage: latest?.message ?? null,
+        });
+      }
+
+      for (const declarations of Object.values(result)) {
+        declarations.sort((a, b) =>
+          (b.declarationDate ?? "").localeCompare(a.declarationDate ?? "")
+        );
+      }
+
+      if (transaction.isValid) {
+        await transaction.commit();
+      }
+      transaction = null;
+
+      return result;
+    } catch (error) {
+      if (transaction) {
+        await rollbackQuietly(transaction);
+        transaction = null;
+      }
+      throw error;
+    }
+  });
+};
@@ -0,0 +1,295 @@
+import type { ResultSet, Transaction } from "node-firebird-driver";
+import {
+  closeResultSetQuietly,
+  rollbackQuietly,
+  withFirebirdAttachment,
+} from "./connection";
+import { normalizeDateRangeQuery, pickDayInRange, type DateRangeQuery } from "./pagination";
+import { coerceToString, formatDateValue, normalizeId, normalizeNumber } from "./rowValues";
+import { createSingleFlight } from "../../utils/singleFlight";
+
+type FirebirdRow = Record<string, unknown>;
+
+const parseCodeList = (
+  value: string | undefined,
+  fallback: readonly string[]
+): readonly string[] => {
+  const codes = String(value ?? "")
+    .split(",")
+    .map((code) => code.trim().toUpperCase())
+    .filter((code) => code.length > 0);
+  return codes.length > 0 ? codes : fallback;
+};
+
+/**
+ * SADUEOPLATYZEST.TYP codes summed into the VAT total compared with
+ * SADUE.SUMAVAT; `DUTY_REPORT_VAT_TYPES` takes a comma-separated list.
+ */
+export const VAT_PAYMENT_TYPES = parseCodeList(process.env.DUTY_REPORT_VAT_TYPES, ["B00"]);
+
+export type DutyLine = {
+  id: number | null;
+  type: string | null;
+  base: number | null;
+  rate: number | null;
+  amount: number | null;
+  /** Method of payment (MP). */
+  method: string | null;
+};
+
+export type DutyTypeTotal = {
+  type: string;
+  lines: number;
+  base: number;
+  amount: number;
+};
+
+export type DutyReportSet = {
+  setId: number | null;
+  sadNumber: string | null;
+  mrn: string | null;
+  /** SADUEZESTAWY.SUMAVATZESTAWU as stored on the set. */
+  sumVat: number | null;
+  /** Sum of the set's VAT payment lines. */
+  vatTotal: number;
+  totals: DutyTypeTotal[];
+  lines: DutyLine[];
+};
+
+export type DutyReportDeclaration = {
+  sadueId: number;
+  sadNumber: string | null;
+  declarationDate: string | null;
+  day: string;
+  currency: string | null;
+  /** SADUE.SUMAVAT as stored on the declaration. */
+  sumVat: number | null;
+  /** Sum of the VAT payment lines. */
+  vatTotal: number;
+  vatDifference: number;
+  vatMismatch: boolean;
+  totals: DutyTypeTotal[];
+  sets: DutyReportSet[];
+};
+
+export type DutyReportDay = {
+  day: string;
+  declarations: number;
+  totals: DutyTypeTotal[];
+};
+
+export type DutyReport = {
+  from: string;
+  to: string;
+  vatTypes: readonly string[];
+  declarationCount: number;
+  mismatchCount: number;
+  totals: DutyTypeTotal[];
+  days: DutyReportDay[];
+  declarations: DutyReportDeclaration[];
+};
+
+// LEFT JOIN keeps declarations without payment lines so a stored SUMAVAT still gets flagged.
+const DUTY_LINES_BY_DATE_RANGE_SQL = `
+  SELECT
+    s.IDSADUE,
+    s.DATADEKL,
+    COALESCE(s.NRAKT, s.DODIDSADU) AS SAD_NUMBER,
+    s.WALUTASADU,
+    s.SUMAVAT,
+    o.ID AS LINE_ID,
+    o.IDZESTAWU,
+    o.TYP,
+    o.PODSTAWA,
+    o.STAWKA,
+    o.KWOTA,
+    o.MP,
+    z.CELINANRSADU,
+    z.MRN,
+    z.SUMAVATZESTAWU
+  FROM SADUE s
+  LEFT JOIN SADUEOPLATYZEST o ON o.IDSADU = s.IDSADUE
+  LEFT JOIN SADUEZESTAWY z ON z.IDSADUEZESTAWY = o.IDZESTAWU
+  WHERE s.DATADEKL >= ? AND s.DATADEKL < ?
+  ORDER BY s.DATADEKL, s.IDSADUE, o.IDZESTAWU, o.ID
+`;
+
+/** Amounts are in PLN with grosz precision; rounding hides double-precision noise. */
+const roundMoney = (value: number): number => Math.round(value * 100) / 100;
+
+class DutyTotals {
+  private readonly byType = new Map<string, DutyTypeTotal>();
+
+  add(line: DutyLine): void {
+    const type = line.type ?? "";
+    const total = this.byType.get(type) ?? { type, lines: 0, base: 0, amount: 0 };
+    total.lines += 1;
+    total.base += line.base ?? 0;
+    total.amount += line.amount ?? 0;
+    this.byType.set(type, total);
+  }
+
+  amountFor(types: readonly string[]): number {
+    return roundMoney(
+      types.reduce((sum, type) => sum + (this.byType.get(type)?.amount ?? 0), 0)
+    );
+  }
+
+  toArray(): DutyTypeTotal[] {
+    return [...this.byType.values()]
+      .map((total) => ({ ...total, base: roundMoney(total.base), amount: roundMoney(total.amount) }))
+      .sort((a, b) => a.type.localeCompare(b.type));
+  }
+}
+
+const toDutyLine = (row: FirebirdRow): DutyLine => ({
+  id: normalizeId(row["LINE_ID"]),
+  type: coerceToString(row["TYP"])?.toUpperCase() ?? null,
+  base: normalizeNumber(row["PODSTAWA"]),
+  rate: normalizeNumber(row["STAWKA"]),
+  amount: normalizeNumber(row["KWOTA"]),
+  method: coerceToString(row["MP"]),
+});
+
+const buildDutyReport = (query: DateRangeQuery, rows: FirebirdRow[]): DutyReport => {
+  const overall = new DutyTotals();
+  const declarations: DutyReportDeclaration[] = [];
+  const declarationTotals = new Map<number, DutyTotals>();
+  const setTotals = new Map<DutyReportSet, DutyTotals>();
+  const days = new Map<string, { declarations: number; totals: DutyTotals }>();
+
+  let current: DutyReportDeclaration | null = null;
+  for (const row of rows) {
+    const sadueId = normalizeId(row["IDSADUE"]);
+    if (sadueId === null) continue;
+
+    const day = pickDayInRange(query, row["DATADEKL"]) ?? query.from;
+    const dayBucket = days.get(day) ?? { declarations: 0, totals: new DutyTotals() };
+    days.set(day, dayBucket);
+
+    if (!current || current.sadueId !== sadueId) {
+      current = {
+        sadueId,
+        sadNumber: coerceToString(row["SAD_NUMBER"]),
+        declarationDate: formatDateValue(row["DATADEKL"]),
+        day,
+        currency: coerceToString(row["WALUTASADU"]),
+        sumVat: normalizeNumber(row["SUMAVAT"]),
+        vatTotal: 0,
+        vatDifference: 0,
+        vatMismatch: false,
+        totals: [],
+        sets: [],
+      };
+      declarations.push(current);
+      declarationTotals.set(sadueId, new DutyTotals());
+      dayBucket.declarations += 1;
+    }
+
+    if (row["LINE_ID"] === null || row["LINE_ID"] === undefined) continue;
+
+    const line = toDutyLine(row);
+    const setId = normalizeId(row["IDZESTAWU"]);
+    let set = current.sets.find((candidate) => candidate.setId === setId);
+    if (!set) {
+      set = {
+        setId,
+        sadNumber: coerceToString(row["CELINANRSADU"]),
+        mrn: coerceToString(row["MRN"]),
+        sumVat: normalizeNumber(row["SUMAVATZESTAWU"]),
+        vatTotal: 0,
+        totals: [],
+        lines: [],
+      };
+      current.sets.push(set);
+      setTotals.set(set, new DutyTotals());
+    }
+    set.lines.push(line);
+
+    setTotals.get(set)?.add(line);
+    declarationTotals.get(sadueId)?.add(line);
+    dayBucket.totals.add(line);
+    overall.add(line);
+  }
+
+  let mismatchCount = 0;
+  for (const declaration of declarations) {
+    const totals = declarationTotals.get(declaration.sadueId) ?? new DutyTotals();
+    declaration.totals = totals.toArray();
+    declaration.vatTotal = totals.amountFor(VAT_PAYMENT_TYPES);
+    declaration.vatDifference = roundMoney(declaration.vatTotal - (declaration.sumVat ?? 0));
+    declaration.vatMismatch = declaration.vatDifference !== 0;
+    if (declaration.vatMismatch) {
+      mismatchCount += 1;
+    }
+    for (const set of declaration.sets) {
+      const totalsOfSet = setTotals.get(set) ?? new DutyTotals();
+      set.totals = totalsOfSet.toArray();
+      set.vatTotal = totalsOfSet.amountFor(VAT_PAYMENT_TYPES);
+    }
+  }
+
+  return {
+    from: query.from,
+    to: query.to,
+    vatTypes: VAT_PAYMENT_TYPES,
+    declarationCount: declarations.length,
+    mismatchCount,
+    totals: overall.toArray(),
+    days: [...days.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([day, bucket]) => ({
+        day,
+        declarations: bucket.declarations,
+        totals: bucket.totals.toArray(),
+      })),
+    declarations,
+  };
+};
+
+const queryDutyReport = async (rawFrom: string, rawTo: string): Promise<DutyReport> => {
+  const query = normalizeDateRangeQuery(rawFrom, rawTo);
+
+  return withFirebirdAttachment(async ({ attachment }) => {
+    let transaction: Transaction | null = null;
+    let resultSet: ResultSet | null = null;
+
+    try {
+      transaction = await attachment.startTransaction();
+      resultSet = await attachment.executeQuery(transaction, DUTY_LINES_BY_DATE_RANGE_SQL, [
+        query.fromDate,
+        query.untilDate,
+      ]);
+      const rows = (await resultSet.fetchAsObject<FirebirdRow>()) ?? [];
+      await resultSet.close();
+      resultSet = null;
+
+      if (transaction.isValid) {
+        await transaction.commit();
+      }
+      transaction = null;
+
+      return buildDutyReport(query, rows);
+    } catch (error) {
+      if (transaction) {
+        await rollbackQuietly(transaction);
+        transaction = null;
+      }
+      throw error;
+    } finally {
+      await closeResultSetQuietly(resultSet);
+    }
+  });
+};
+
+const dutyReportFlights = createSingleFlight<DutyReport>("firebird:dutyReport");
+
+/**
+ * Duty and tax payment lines (SADUEOPLATYZEST) of declarations dated within
+ * the range, totalled per payment type, per day, per declaration and per set. Each
+ * declaration is flagged when its VAT lines do not add up to SADUE.SUMAVAT.
+ */
+export const fetchDutyReport = (from: string, to: string): Promise<DutyReport> =>
+  dutyReportFlights.run(`${String(from).trim()}|${String(to).trim()}`, () =>
+    queryDutyReport(from, to)
+  );
@@ -8,17 +8,73 @@ export {
   withFirebirdAttachment,
 } from "./connection";
 
+export type {
+  DateRangePageOptions,
+  FirebirdPage,
+} from "./pagination";
 export type {
   FetchWysylkiByDateOptions,
+  FetchWysylkiByDateRangeOptions,
   FetchWysylkiByMrnOptions,
 } from "./wysylkiRepository";
 export {
   checkFirebirdConnection,
   fetchCmrSampleRows,
   fetchWysylkiByCreationDate,
+  fetchWysylkiByCreationDateRange,
   fetchWysylkiByMrn,
 } from "./wysylkiRepository";
 export type { RejestrSummary } from "./rejestrRepository";
-export { fetchRejestrEntriesByDeclarationDate } from "./rejestrRepository";
+export {
+  fetchRejestrEntriesByDeclarationDate,
+  fetchRejestrEntriesByDeclarationDateRange,
+} from "./rejestrRepository";
 export type { UsualRejestrSummary } from "./usualRejestrRepository";
-export { fetchUsualRejestrEntriesByDeclarationDate } from "./usualRejestrRepository";
+export {
+  fetchUsualRejestrEntriesByDeclarationDate,
+  fetchUsualRejestrEntriesByDeclarationDateRange,
+} from "./usualRejestrRepository";
+export type {
+  ContainerDeclaration,
+  ContainerDeclarationMessage,
+} from "./containerDeclarationsRepository";
+export { fetchDeclarationsByContainers } from "./containerDeclarationsRepository";
+export type {
+  MrnKeyDates,
+  MrnLifecycleStage,
+  MrnTimeline,
+  MrnTimelineMessage,
+} from "./mrnTimelineRepository";
+export { fetchMrnTimeline } from "./mrnTimelineRepository";
+export type {
+  SadueContainer,
+  SadueDetail,
+  SadueDetailPart,
+  SadueDocument,
+  SadueDuty,
+  SadueMessage,
+  SadueMessagesUnavailableReason,
+} from "./sadueRepository";
+export { SADUE_DETAIL_PARTS, fetchSadueDetail } from "./sadueRepository";
+export type {
+  DutyLine,
+  DutyReport,
+  DutyReportDay,
+  DutyReportDeclaration,
+  DutyReportSet,
+  DutyTypeTotal,
+} from "./dutyReportRepository";
+export { VAT_PAYMENT_TYPES, fetchDutyReport } from "./dutyReportRepository";
+export type {
+  CurrencyRate,
+  CurrencyRateRequest,
+  PlnAmount,
+} from "./ratesRepository";
+export {
+  convertToPln,
+  fetchCurrencyRate,
+  fetchCurrencyRates,
+  rateRequestKey,
+} from "./ratesRepository";
+export type { SaduePlnValues, WysylkaPlnValues } from "./plnValues";
+export { addPlnValuesToSadueDetail, addPlnValuesToWysylki } from "./plnValues";
@@ -0,0 +1,42 @@
+import { extractMessageCodesFromXml } from "../../utils/wysylkaXml";
+
+const FILE_NAME_CODE_REGEX = /(?:^|[^A-Z0-9])([A-Z]{2}\d{3}[A-Z]?)(?=[^A-Z0-9]|$)/i;
+
+/** Message code embedded in WYSYLKICELINA.NAZWAPLIKU, e.g. `ZC428_2024...xml` -> `ZC428`. */
+export const extractMessageCodeFromFileName = (fileName: string | null): string | null => {
+  if (!fileName) {
+    return null;
+  }
+  const match = FILE_NAME_CODE_REGEX.exec(fileName.trim());
+  return match ? match[1].toUpperCase() : null;
+};
+
+/** Code of the XML root element (first message code tag in document order). */
+export const extractMessageCodeFromXmlRoot = (xml: string | null): string | null => {
+  if (!xml) {
+    return null;
+  }
+  return extractMessageCodesFromXml(xml)[0] ?? null;
+};
+
+/**
+ * Prefers the file name, which is cheap to read, and only falls back to the
+ * decoded XML documents when the name carries no code.
+ */
+export const resolveMessageCode = (
+  fileName: string | null,
+  ...xmlDocuments: Array<string | null>
+): string | null => {
+  const fromFileName = extractMessageCodeFromFileName(fileName);
+  if (fromFileName) {
+    return fromFileName;
+  }
+
+  for (const xml of xmlDocuments) {
+    const fromXml = extractMessageCodeFromXmlRoot(xml);
+    if (fromXml) {
+      return fromXml;
+    }
+  }
+  return null;
+};
@@ -0,0 +1,189 @@
+import type { Attachment, ResultSet, Transaction } from "node-firebird-driver";
+import {
+  closeResultSetQuietly,
+  rollbackQuietly,
+  withFirebirdAttachment,
+} from "./connection";
+import { extractMessageCodeFromFileName, resolveMessageCode } from "./messageCodes";
+import { coerceToString, formatDateValue, normalizeId } from "./rowValues";
+import { mapWysylkaRowWithAllColumns } from "./wysylkaMapper";
+import { createSingleFlight } from "../../utils/singleFlight";
+
+type FirebirdRow = Record<string, unknown>;
+
+export type MrnLifecycleStage =
+  | "submitted"
+  | "accepted"
+  | "released"
+  | "arrived"
+  | "closed"
+  | "rejected"
+  | "cancelled"
+  | "other";
+
+export type MrnTimelineMessage = {
+  idWysylki: number | null;
+  messageCode: string | null;
+  /** Where the code came from: the file name is preferred, XML roots are the fallback. */
+  codeSource: "fileName" | "xml" | null;
+  stage: MrnLifecycleStage;
+  description: string | null;
+  fileName: string | null;
+  createdAt: string | null;
+  sentAt: string | null;
+  /** WYSYLKICELINA.ODRZUCONO */
+  rejectedFlag: boolean;
+};
+
+export type MrnKeyDates = Partial<Record<Exclude<MrnLifecycleStage, "other">, string>>;
+
+export type MrnTimeline = {
+  mrn: string;
+  status: MrnLifecycleStage | "unknown";
+  statusAt: string | null;
+  keyDates: MrnKeyDates;
+  count: number;
+  messages: MrnTimelineMessage[];
+};
+
+const MESSAGE_STAGES: Record<string, { stage: MrnLifecycleStage; description: string }> = {
+  IE015: { stage: "submitted", description: "Transit declaration submitted" },
+  IE028: { stage: "accepted", description: "MRN allocated" },
+  IE029: { stage: "released", description: "Released for transit" },
+  IE016: { stage: "rejected", description: "Declaration rejected" },
+  IE056: { stage: "rejected", description: "Rejection from customs" },
+  IE009: { stage: "cancelled", description: "Cancellation decision" },
+  IE007: { stage: "arrived", description: "Arrival notification" },
+  IE006: { stage: "arrived", description: "Arrival advice" },
+  IE045: { stage: "closed", description: "Write-off notification" },
+  ZC415: { stage: "submitted", description: "Import declaration submitted" },
+  ZC428: { stage: "accepted", description: "Import declaration accepted" },
+  ZC429: { stage: "released", description: "Goods released" },
+};
+
+const TIMELINE_BY_MRN_SQL = `
+  SELECT
+    r.ID_WYSYLKI,
+    r.NAZWAPLIKU,
+    r.DATAUTWORZENIA,
+    r.DATAWYSLANIA,
+    r.ODRZUCONO,
+    r.DOKUMENTXML,
+    r.ODPOWIEDZXML
+  FROM WYSYLKICELINA r
+  WHERE r.NRMRNDOK STARTING WITH ?
+  ORDER BY r.ID_WYSYLKI
+`;
+
+const eventTime = (message: MrnTimelineMessage): string =>
+  message.createdAt ?? message.sentAt ?? "";
+
+const toTimelineMessage = async (
+  row: FirebirdRow,
+  attachment: Attachment,
+  transaction: Transaction
+): Promise<MrnTimelineMessage> => {
+  const fileName = coerceToString(row["NAZWAPLIKU"]);
+  let messageCode = extractMessageCodeFromFileName(fileName);
+  let codeSource: MrnTimelineMessage["codeSource"] = messageCode ? "fileName" : null;
+
+  // XML blobs are only decoded when the file name does not tell the message type.
+  if (!messageCode) {
+    const mapped = await mapWysylkaRowWithAllColumns(row, attachment, transaction);
+    messageCode = resolveMessageCode(
+      null,
+      coerceToString(mapped["dokumentXml"]),
+      coerceToString(mapped["odpowiedzXml"])
+    );
+    codeSource = messageCode ? "xml" : null;
+  }
+
+  const rejectedFlag = normalizeId(row["ODRZUCONO"]) === 1;
+  const known = messageCode ? MESSAGE_STAGES[messageCode] : undefined;
+  return {
+    idWysylki: normalizeId(row["ID_WYSYLKI"]),
+    messageCode,
+    codeSource,
+    stage: known?.stage ?? (rejectedFlag ? "rejected" : "other"),
+    description: known?.description ?? null,
+    fileName,
+    createdAt: formatDateValue(row["DATAUTWORZENIA"]),
+    sentAt: formatDateValue(row["DATAWYSLANIA"]),
+    rejectedFlag,
+  };
+};
+
+/**
+ * The current status is the stage of the latest classified message; key dates
+ * keep the first time each stage was reached.
+ */
+const buildTimeline = (mrn: string, messages: MrnTimelineMessage[]): MrnTimeline => {
+  messages.sort(
+    (a, b) =>
+      eventTime(a).localeCompare(eventTime(b)) || (a.idWysylki ?? 0) - (b.idWysylki ?? 0)
+  );
+
+  const keyDates: MrnKeyDates = {};
+  let status: MrnTimeline["status"] = "unknown";
+  let statusAt: string | null = null;
+  for (const message of messages) {
+    if (message.stage === "other") continue;
+    const at = eventTime(message) || null;
+    status = message.stage;
+    statusAt = at;
+    if (at && !keyDates[message.stage]) {
+      keyDates[message.stage] = at;
+    }
+  }
+
+  return { mrn, status, statusAt, keyDates, count: messages.length, messages };
+};
+
+const queryMrnTimeline = async (mrn: string): Promise<MrnTimeline> => {
+  const normalizedMrn = typeof mrn === "string" ? mrn.trim() : "";
+  if (!normalizedMrn) {
+    throw new Error("MRN value must be a non-empty string");
+  }
+
+  return withFirebirdAttachment(async ({ attachment }) => {
+    let transaction: Transaction | null = null;
+    let resultSet: ResultSet | null = null;
+
+    try {
+      transaction = await attachment.startTransaction();
+
+      resultSet = await attachment.executeQuery(transaction, TIMELINE_BY_MRN_SQL, [
+        normalizedMrn,
+      ]);
+      const rows = (await resultSet.fetchAsObject<FirebirdRow>()) ?? [];
+      await resultSet.close();
+      resultSet = null;
+
+      const messages: MrnTimelineMessage[] = [];
+      for (const row of rows) {
+        messages.push(await toTimelineMessage(row, attachment, transaction));
+      }
+
+      if (transaction.isValid) {
+        await transaction.commit();
+      }
+      transaction = null;
+
+      return buildTimeline(normalizedMrn, messages);
+    } catch (error) {
+      if (transaction) {
+        await rollbackQuietly(transaction);
+        transaction = null;
+      }
+      throw error;
+    } finally {
+      await closeResultSetQuietly(resultSet);
+    }
+  });
+};
+
+const timelineFlights = createSingleFlight<MrnTimeline>("firebird:mrnTimeline");
+
+/** Every WYSYLKICELINA message for the MRN, classified and in chronological order. */
+export const fetchMrnTimeline = (mrn: string): Promise<MrnTimeline> =>
+  timelineFlights.run(String(mrn).trim(), () => queryMrnTimeline(mrn));
@@ -0,0 +1,125 @@
+import { isIsoDateOnlyFormat, parseIsoDateOnly } from "./dateUtils";
+
+export const DEFAULT_PAGE_SIZE = 100;
+export const MAX_PAGE_SIZE = 500;
+export const MAX_RANGE_DAYS = 366;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type DateRangePageOptions = {
+  /** `nextCursor` of the previous page; omitted for the first page. */
+  cursor?: string | number | null;
+  pageSize?: number;
+};
+
+export type DateRangeQuery = {
+  from: string;
+  to: string;
+  fromDate: Date;
+  toDate: Date;
+  /**
+   * Start of the day after `to`. Timestamp columns are compared as
+   * `>= fromDate AND < untilDate`, which keeps their indexes usable where a
+   * CAST to DATE would not.
+   */
+  untilDate: Date;
+  /** Rows with a key greater than this are returned; 0 for the first page. */
+  afterId: number;
+  pageSize: number;
+};
+
+export type FirebirdPage<T> = {
+  from: string;
+  to: string;
+  pageSize: number;
+  /** Pass back as `cursor` to get the next page; `null` on the last page. */
+  nextCursor: string | null;
+  rows: T[];
+};
+
+const parseCursor = (raw: DateRangePageOptions["cursor"]): number => {
+  if (raw === undefined || raw === null || String(raw).trim() === "") {
+    return 0;
+  }
+
+  const value = String(raw).trim();
+  if (!/^\d+$/.test(value)) {
+    throw new Error("Cursor must be a non-negative integer.");
+  }
+  return Number.parseInt(value, 10);
+};
+
+const normalizePageSize = (raw: number | undefined): number => {
+  if (raw === undefined || !Number.isFinite(raw)) {
+    return DEFAULT_PAGE_SIZE;
+  }
+  return Math.min(Math.max(Math.trunc(raw), 1), MAX_PAGE_SIZE);
+};
+
+/** Validates an inclusive `from`/`to` day range; throws with a user-facing message. */
+export const normalizeDateRangeQuery = (
+  rawFrom: string,
+  rawTo: string,
+  options: DateRangePageOptions = {}
+): DateRangeQuery => {
+  const from = typeof rawFrom === "string" ? rawFrom.trim() : "";
+  const to = typeof rawTo === "string" ? rawTo.trim() : "";
+  if (!isIsoDateOnlyFormat(from) || !isIsoDateOnlyFormat(to)) {
+    throw new Error("`from` and `to` must be provided in the ISO format YYYY-MM-DD.");
+  }
+
+  const fromDate = parseIsoDateOnly(from);
+  const toDate = parseIsoDateOnly(to);
+  if (fromDate.getTime() > toDate.getTime()) {
+    throw new Error("`from` must not be after `to`.");
+  }
+  if ((toDate.getTime() - fromDate.getTime()) / DAY_MS + 1 > MAX_RANGE_DAYS) {
+    throw new Error(`Date range must not exceed ${MAX_RANGE_DAYS} days.`);
+  }
+
+  return {
+    from,
+    to,
+    fromDate,
+    toDate,
+    untilDate: new Date(toDate.getTime() + DAY_MS),
+    afterId: parseCursor(options.cursor),
+    pageSize: normalizePageSize(options.pageSize),
+  };
+};
+
+/**
+ * A full page means there may be more rows after its last key. The page after
+ * the last full one comes back empty with no cursor, which saves fetching and
+ * decoding a look-ahead row on every page. Pages are counted in distinct keys,
+ * since joined rows can repeat a key.
+ */
+export const nextPageCursor = <R>(
+  rows: readonly R[],
+  pageSize: number,
+  readId: (row: R) => number | null
+): string | null => {
+  const keys = new Set(rows.map(readId));
+  if (keys.size < pageSize || rows.length === 0) {
+    return null;
+  }
+  const lastId = readId(rows[rows.length - 1]);
+  return lastId === null ? null : String(lastId);
+};
+
+/** Day (YYYY-MM-DD) of the first value that falls inside the range. */
+export const pickDayInRange = (
+  query: Pick<DateRangeQuery, "fromDate" | "toDate">,
+  ...values: unknown[]
+): string | null => {
+  for (const value of values) {
+    if (!(value instanceof Date) || Number.isNaN(value.getTime())) continue;
+    const day = new Date(
+      Date.UTC(value.getFullYear(), value.getMonth(), value.getDate())
+    );
+    if (day >= query.fromDate && day <= query.toDate) {
+      return day.toISOString().slice(0, 10);
+    }
+  }
+  return null;
+};
@@ -0,0 +1,131 @@
+import {
+  convertToPln,
+  fetchCurrencyRates,
+  rateRequestKey,
+  type CurrencyRate,
+  type CurrencyRateRequest,
+  type PlnAmount,
+} from "./ratesRepository";
+import { coerceToString, formatLocalDay, normalizeNumber } from "./rowValues";
+import type { SadueDetail } from "./sadueRepository";
+
+type Row = Record<string, unknown>;
+
+export type WysylkaPlnValues = {
+  /** SADUE.OGOLNAWARTOSC in PLN. */
+  totalValue: PlnAmount | null;
+  guaranteeAmount: PlnAmount | null;
+};
+
+export type SaduePlnValues = {
+  totalValue: PlnAmount | null;
+  /** P22WARTOSCZESTAWU of each goods set in PLN. */
+  sets: Array<{ setId: unknown; invoiceValue: PlnAmount | null }>;
+};
+
+/**
+ * KURSYWALUT.RODZAJKURSU used for conversions. WinSAD keeps several kinds of
+ * rate per table, so without it the applied kind is whichever sorts first.
+ */
+const CONVERSION_RATE_KIND = process.env.WINSAD_CONVERSION_RATE_KIND;
+
+const readXmlField = (row: Row, field: string): string | null => {
+  for (const key of ["odpowiedzXmlFields", "dokumentXmlFields"]) {
+    const fields = row[key];
+    if (fields && typeof fields === "object") {
+      const value = coerceToString((fields as Row)[field]);
+      if (value) {
+        return value;
+      }
+    }
+  }
+  return null;
+};
+
+type Conversion = { amount: number; currency: string; date: string };
+
+const toConversion = (amount: unknown, currency: unknown, date: string | null): Conversion | null => {
+  const numericAmount = normalizeNumber(amount);
+  const currencyCode = coerceToString(currency);
+  if (numericAmount === null || !currencyCode || !date) {
+    return null;
+  }
+  return { amount: numericAmount, currency: currencyCode, date };
+};
+
+const convertAll = async (
+  conversions: Array<Conversion | null>
+): Promise<Array<PlnAmount | null>> => {
+  const requests: CurrencyRateRequest[] = conversions.filter(
+    (conversion): conversion is Conversion => conversion !== null
+  );
+  const rates: Map<string, CurrencyRate | null> = await fetchCurrencyRates(
+    requests,
+    CONVERSION_RATE_KIND
+  );
+  return conversions.map((conversion) =>
+    conversion
+      ? convertToPln(
+          conversion.amount,
+          conversion.currency,
+          rates.get(rateRequestKey(conversion)) ?? null
+        )
+      : null
+  );
+};
+
+/**
+ * Adds `pln` to WYSYLKICELINA rows: the linked declaration value and the
+ * guarantee amount, converted at the rate valid on the declaration day (or
+ * the message day when the row has no SADUE link).
+ */
+export const addPlnValuesToWysylki = async <R extends Row>(
+  rows: readonly R[]
+): Promise<Array<R & { pln: WysylkaPlnValues }>> => {
+  const conversions = rows.flatMap((row) => {
+    const sadue = row["sadue"] && typeof row["sadue"] === "object" ? (row["sadue"] as Row) : null;
+    const day = formatLocalDay(sadue?.["DATADEKL"]) ?? formatLocalDay(row["DATAUTWORZENIA"]);
+    return [
+      sadue ? toConversion(sadue["OGOLNAWARTOSC"], sadue["WALUTASADU"], day) : null,
+      toConversion(
+        readXmlField(row, "guaranteeAmount"),
+        readXmlField(row, "guaranteeCurrency"),
+        day
+      ),
+    ];
+  });
+
+  const converted = await convertAll(conversions);
+  return rows.map((row, index) => ({
+    ...row,
+    pln: {
+      totalValue: converted[index * 2],
+      guaranteeAmount: converted[index * 2 + 1],
+    },
+  }));
+};
+
+/** Adds `pln` to a declaration detail, converted at the rate valid on DATADEKL. */
+export const addPlnValuesToSadueDetail = async (
+  detail: SadueDetail
+): Promise<SadueDetail & { pln: SaduePlnValues }> => {
+  const day = formatLocalDay(detail.header["DATADEKL"]);
+  const currency = detail.header["WALUTASADU"];
+  const sets = detail.sets ?? [];
+
+  const [totalValue, ...setValues] = await convertAll([
+    toConversion(detail.header["OGOLNAWARTOSC"], currency, day),
+    ...sets.map((set) => toConversion(set["P22WARTOSCZESTAWU"], currency, day)),
+  ]);
+
+  return {
+    ...detail,
+    pln: {
+      totalValue,
+      sets: sets.map((set, index) => ({
+        setId: set["IDSADUEZESTAWY"] ?? null,
+        invoiceValue: setValues[index],
+      })),
+    },
+  };
+};
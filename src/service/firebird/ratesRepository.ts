@@ -0,0 +1,263 @@
+import type { Attachment, ResultSet, Transaction } from "node-firebird-driver";
+import {
+  closeResultSetQuietly,
+  rollbackQuietly,
+  withFirebirdAttachment,
+} from "./connection";
+import { isIsoDateOnlyFormat, parseIsoDateOnly } from "./dateUtils";
+import { coerceToString, formatLocalDay, normalizeNumber } from "./rowValues";
+import { createSingleFlight } from "../../utils/singleFlight";
+
+type FirebirdRow = Record<string, unknown>;
+
+export type CurrencyRate = {
+  currency: string;
+  /** Day the rate was requested for (YYYY-MM-DD). */
+  date: string;
+  /** PLN for `multiplier` units of the currency. */
+  rate: number;
+  multiplier: number;
+  /** PLN for a single unit, i.e. `rate / multiplier`. */
+  unitRate: number;
+  /** NBP table number (NRNBP). */
+  tableNumber: string | null;
+  tableName: string | null;
+  /** KURSYWALUT.RODZAJKURSU. */
+  rateKind: string | null;
+  /** TABELEKURSOW.RODZAJTABELI. */
+  tableKind: number | null;
+  validFrom: string | null;
+  validTo: string | null;
+};
+
+export type CurrencyRateRequest = {
+  currency: string;
+  date: string;
+};
+
+export type PlnAmount = {
+  amount: number;
+  currency: string;
+  /** `null` when WinSAD has no rate for the currency on that day. */
+  pln: number | null;
+  /** RODZAJKURSU of the applied rate; `null` for PLN or when no rate was found. */
+  rateKind: string | null;
+  rate: CurrencyRate | null;
+};
+
+const PLN = "PLN";
+
+// Tables are valid from DATAOD until DATADO; a newer edition of the same table wins.
+// Without a rate kind, ties across kinds go to the lowest RODZAJKURSU so repeated
+// lookups agree.
+const RATE_BY_CURRENCY_AND_DATE_SQL = (withRateKind: boolean) => `
+  SELECT FIRST 1
+    k.WALUTA,
+    k.KURSWALUTY,
+    k.MNOZNIK,
+    k.NRNBP,
+    k.RODZAJKURSU,
+    t.NAZWATABELI,
+    t.RODZAJTABELI,
+    t.DATAOD,
+    t.DATADO
+  FROM KURSYWALUT k
+  JOIN TABELEKURSOW t ON t.IDTABEKURS = k.IDTABELIKURSOW
+  WHERE UPPER(k.WALUTA) = ?
+    AND t.DATAOD <= ?
+    AND (t.DATADO IS NULL OR t.DATADO >= ?)
+    ${withRateKind ? "AND UPPER(k.RODZAJKURSU) = ?" : ""}
+  ORDER BY t.DATAOD DESC, t.EDYCJA DESC, k.RODZAJKURSU, k.IDKURSWALU DESC
+`;
+
+const normalizeCurrency = (value: string): string => String(value ?? "").trim().toUpperCase();
+
+const normalizeRateKind = (value: string | undefined): string | null => {
+  const trimmed = String(value ?? "").trim().toUpperCase();
+  return trimmed.length > 0 ? trimmed : null;
+};
+
+/** Validates the request; throws with a user-facing message. */
+const normalizeRateRequest = (
+  currency: string,
+  date: string
+): { currency: string; date: string; day: Date } => {
+  const normalizedCurrency = normalizeCurrency(currency);
+  if (!/^[A-Z]{3}$/.test(normalizedCurrency)) {
+    throw new Error("`currency` must be a three-letter ISO 4217 code.");
+  }
+  const normalizedDate = String(date ?? "").trim();
+  if (!isIsoDateOnlyFormat(normalizedDate)) {
+    throw new Error("`date` must be provided in the ISO format YYYY-MM-DD.");
+  }
+  const day = parseIsoDateOnly(normalizedDate);
+  return {
+    currency: normalizedCurrency,
+    date: day.toISOString().slice(0, 10),
+    day,
+  };
+};
+
+const toCurrencyRate = (row: FirebirdRow, currency: string, date: string): CurrencyRate | null => {
+  const rate = normalizeNumber(row["KURSWALUTY"]);
+  if (rate === null) {
+    return null;
+  }
+  const multiplier = normalizeNumber(row["MNOZNIK"]) || 1;
+  return {
+    currency,
+    date,
+    rate,
+    multiplier,
+    unitRate: rate / multiplier,
+    tableNumber: coerceToString(row["NRNBP"]),
+    tableName: coerceToString(row["NAZWATABELI"]),
+    rateKind: coerceToString(row["RODZAJKURSU"]),
+    tableKind: normalizeNumber(row["RODZAJTABELI"]),
+    validFrom: formatLocalDay(row["DATAOD"]),
+    validTo: formatLocalDay(row["DATADO"]),
+  };
+};
+
+/** A fixed 1:1 rate so PLN amounts go through the same conversion path. */
+const plnRate = (date: string): CurrencyRate => ({
+  currency: PLN,
+  date,
+  rate: 1,
+  multiplier: 1,
+  unitRate: 1,
+  tableNumber: null,
+  tableName: null,
+  rateKind: null,
+  tableKind: null,
+  validFrom: null,
+  validTo: null,
+});
+
+const queryRate = async (
+  attachment: Attachment,
+  transaction: Transaction,
+  request: { currency: string; date: string; day: Date },
+  rateKind: string | null
+): Promise<CurrencyRate | null> => {
+  let resultSet: ResultSet | null = null;
+  try {
+    resultSet = await attachment.executeQuery(
+      transaction,
+      RATE_BY_CURRENCY_AND_DATE_SQL(rateKind !== null),
+      [request.currency, request.day, request.day, ...(rateKind !== null ? [rateKind] : [])]
+    );
+    const [row] = (await resultSet.fetchAsObject<FirebirdRow>()) ?? [];
+    return row ? toCurrencyRate(row, request.currency, request.date) : null;
+  } finally {
+    await closeResultSetQuietly(resultSet);
+  }
+};
+
+const withRatesTransaction = <T>(
+  work: (attachment: Attachment, transaction: Transaction) => Promise<T>
+): Promise<T> =>
+  withFirebirdAttachment(async ({ attachment }) => {
+    let transaction: Transaction | null = null;
+
+    try {
+      transaction = await attachment.startTransaction();
+      const result = await work(attachment, transaction);
+
+      if (transaction.isValid) {
+        await transaction.commit();
+      }
+      transaction = null;
+
+      return result;
+    } catch (error) {
+      if (transaction) {
+        await rollbackQuietly(transaction);
+        transaction = null;
+      }
+      throw error;
+    }
+  });
+
+const rateFlights = createSingleFlight<CurrencyRate | null>("firebird:currencyRate");
+
+/**
+ * Rate WinSAD applies to the currency on the given day: the newest rate table
+ * whose validity covers the day. `rateKind` narrows the lookup to one
+ * RODZAJKURSU. Resolves to `null` when no table covers the day.
+ */
+export const fetchCurrencyRate = (
+  currency: string,
+  date: string,
+  rateKind?: string
+): Promise<CurrencyRate | null> => {
+  const request = normalizeRateRequest(currency, date);
+  const kind = normalizeRateKind(rateKind);
+  if (request.currency === PLN) {
+    return Promise.resolve(plnRate(request.date));
+  }
+  return rateFlights.run(`${request.currency}|${request.date}|${kind ?? ""}`, () =>
+    withRatesTransaction((attachment, transaction) =>
+      queryRate(attachment, transaction, request, kind)
+    )
+  );
+};
+
+export const rateRequestKey = (request: CurrencyRateRequest): string =>
+  `${normalizeCurrency(request.currency)}|${String(request.date ?? "").trim()}`;
+
+/**
+ * Looks up several currency/day pairs over one attachment, all of the same
+ * `rateKind` when given. Results are keyed by `rateRequestKey`; invalid
+ * requests are skipped.
+ */
+export const fetchCurrencyRates = async (
+  requests: readonly CurrencyRateRequest[],
+  rateKind?: string
+): Promise<Map<string, CurrencyRate | null>> => {
+  const kind = normalizeRateKind(rateKind);
+  const rates = new Map<string, CurrencyRate | null>();
+  const pending = new Map<string, ReturnType<typeof normalizeRateRequest>>();
+  for (const request of requests) {
+    let normalized: ReturnType<typeof normalizeRateRequest>;
+    try {
+      normalized = normalizeRateRequest(request.currency, request.date);
+    } catch {
+      continue;
+    }
+    if (normalized.currency === PLN) {
+      rates.set(rateRequestKey(request), plnRate(normalized.date));
+    } else {
+      pending.set(rateRequestKey(request), normalized);
+    }
+  }
+
+  if (pending.size === 0) {
+    return rates;
+  }
+
+  return withRatesTransaction(async (attachment, transaction) => {
+    for (const [key, request] of pending) {
+      rates.set(key, await queryRate(attachment, transaction, request, kind));
+    }
+    return rates;
+  });
+};
+
+/** Converts `amount` in `currency` to PLN, rounded to grosze. */
+export const convertToPln = (
+  amount: number,
+  currency: string,
+  rate: CurrencyRate | null
+): PlnAmount | null => {
+  if (!Number.isFinite(amount)) {
+    return null;
+  }
+  return {
+    amount,
+    currency: normalizeCurrency(currency),
+    pln: rate ? Math.round(amount * rate.unitRate * 100) / 100 : null,
+    rateKind: rate?.rateKind ?? null,
+    rate,
+  };
+};
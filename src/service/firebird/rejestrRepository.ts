@@ -10,6 +10,14 @@ import {
   withFirebirdAttachment,
 } from "./connection";
 import { parseIsoDateOnly } from "./dateUtils";
+import {
+  nextPageCursor,
+  normalizeDateRangeQuery,
+  pickDayInRange,
+  type DateRangePageOptions,
+  type FirebirdPage,
+} from "./pagination";
+import { createSingleFlight } from "../../utils/singleFlight";
 import { mapWysylkaRowWithAllColumns } from "./wysylkaMapper";
 
 type FirebirdRow = Record<string, unknown>;
@@ -29,8 +37,7 @@ export type RejestrSummary = {
   sadueSupplementId: number | null;
 };
 
-const REJWPISY_ENRICHED_BY_DATE_SQL = `
-  SELECT
+const REJWPISY_ENRICHED_COLUMNS = `
     r.IDWPISU,
     r.NRKONWPISU,
     r.DATAWPISU,
@@ -47,20 +54,55 @@ const REJWPISY_ENRICHED_BY_DATE_SQL = `
     COALESCE(s_supp.SUMAVAT, s.SUMAVAT) AS SAD_SUM_VAT,
     COALESCE(s_supp.UCZGLOSZENIA, s.UCZGLOSZENIA) AS UCZGLOSZENIA,
     COALESCE(z_supp.MRN, z_main.MRN, i_supp.MRN, i_main.MRN) AS MRN,
-    COALESCE(z_supp.SUMAVATZESTAWU, z_main.SUMAVATZESTAWU) AS SET_SUM_VAT
-  FROM REJWPISY r
+    COALESCE(z_supp.SUMAVATZESTAWU, z_main.SUMAVATZESTAWU) AS SET_SUM_VAT,
+    s.DATADEKL AS SAD_DATADEKL,
+    s_supp.DATADEKL AS SUPP_DATADEKL,
+    r.DATADEKL AS REJ_DATADEKL
+`;
+
+const REJWPISY_ENRICHED_JOINS = `
   LEFT JOIN SADUE s ON s.IDSADUE = r.IDSADU
   LEFT JOIN SADUE s_supp ON s_supp.IDSADUE = r.IDSADUUZUP
   LEFT JOIN SADUEZESTAWY z_main ON z_main.IDMSADUE = s.IDSADUE
   LEFT JOIN SADUEZESTAWY z_supp ON z_supp.IDMSADUE = s_supp.IDSADUE
   LEFT JOIN ICS2 i_main ON i_main.IDSADU = s.IDSADUE
   LEFT JOIN ICS2 i_supp ON i_supp.IDSADU = s_supp.IDSADUE
+`;
+
+const REJWPISY_ENRICHED_BY_DATE_SQL = `
+  SELECT
+${REJWPISY_ENRICHED_COLUMNS}
+  FROM REJWPISY r
+${REJWPISY_ENRICHED_JOINS}
   WHERE CAST(s.DATADEKL AS DATE) = ?
      OR CAST(s_supp.DATADEKL AS DATE) = ?
      OR CAST(r.DATADEKL AS DATE) = ?
   ORDER BY r.DATAWPISU DESC, r.IDWPISU DESC
 `;
 
+// The set and ICS2 joins can repeat an entry, so FIRST runs over distinct IDWPISU in a
+// derived table; a page limit on the joined rows could end in the middle of an entry.
+const REJWPISY_ENRICHED_BY_DATE_RANGE_SQL = (pageSize: number) => `
+  SELECT
+${REJWPISY_ENRICHED_COLUMNS}
+  FROM (
+    SELECT FIRST ${pageSize} r.IDWPISU
+    FROM REJWPISY r
+    LEFT JOIN SADUE s ON s.IDSADUE = r.IDSADU
+    LEFT JOIN SADUE s_supp ON s_supp.IDSADUE = r.IDSADUUZUP
+    WHERE (
+         (s.DATADEKL >= ? AND s.DATADEKL < ?)
+         OR (s_supp.DATADEKL >= ? AND s_supp.DATADEKL < ?)
+         OR (r.DATADEKL >= ? AND r.DATADEKL < ?)
+       )
+      AND r.IDWPISU > ?
+    ORDER BY r.IDWPISU
+  ) page
+  JOIN REJWPISY r ON r.IDWPISU = page.IDWPISU
+${REJWPISY_ENRICHED_JOINS}
+  ORDER BY r.IDWPISU
+`;
+
 const WYSYLKICELINA_LOOKBACK_LIMIT = 15;
 
 const WYSYLKICELINA_RECENT_BY_DOCUMENT_SQL = `
@@ -199,16 +241,16 @@ type WysylkaResolution = {
   xmlDoc: string | null;
 };
 
-export const fetchRejestrEntriesByDeclarationDate = async (
-  rawDate: string
-): Promise<RejestrSummary[]> => {
-  const normalizedDate = typeof rawDate === "string" ? rawDate.trim() : "";
-  if (!normalizedDate) {
-    throw new Error("Date value must be a non-empty string");
-  }
-
-  const parsedDate = parseIsoDateOnly(normalizedDate);
-  const expectedYearSuffix = normalizedDate.slice(2, 4);
+/**
+ * Runs one of the REJWPISY queries above and resolves MRN and ZC XML for every
+ * row. `dayForRow` gives the declaration day reported for a row; its year is
+ * what MRN candidates are checked against.
+ */
+const loadRejestrEntries = async (
+  sql: string,
+  parameters: unknown[],
+  dayForRow: (row: FirebirdRow) => string
+): Promise<{ entries: RejestrSummary[]; rows: FirebirdRow[] }> => {
   const preferWysylkiMrn = parseBooleanEnv(
     process.env.REJESTR_PREFER_WYSYLKICELINA_MRN,
     true
@@ -221,11 +263,7 @@ export const fetchRejestrEntriesByDeclarationDate = async (
     try {
       transaction = await attachment.startTransaction();
 
-      resultSet = await attachment.executeQuery(
-        transaction,
-        REJWPISY_ENRICHED_BY_DATE_SQL,
-        [parsedDate, parsedDate, parsedDate]
-      );
+      resultSet = await attachment.executeQuery(transaction, sql, parameters);
       const rows = await resultSet.fetchAsObject<FirebirdRow>();
       await resultSet.close();
       resultSet = null;
@@ -233,9 +271,12 @@ export const fetchRejestrEntriesByDeclarationDate = async (
       const wysylkaMrnCache = new Map<string, WysylkaResolution>();
 
       const resolveMrnViaWysylka = async (
-        cacheKey: string,
-        parameter: number | string
+        documentKey: string,
+        parameter: number | string,
+        expectedYearSuffix: string
       ): Promise<WysylkaResolution> => {
+        // The preferred MRN depends on the expected year, which can differ across a range.
+        const cacheKey = `${expectedYearSuffix}:${documentKey}`;
         if (wysylkaMrnCache.has(cacheKey)) {
           return wysylkaMrnCache.get(cacheKey)!;
         }
@@ -328,7 +369,8 @@ export const fetchRejestrEntriesByDeclarationDate = async (
       const resolveMrnForRow = async (
         sadueId: number | null,
         sadueSupplementId: number | null,
-        pozRejValue: string | null
+        pozRejValue: string | null,
+        expectedYearSuffix: string
       ): Promise<WysylkaResolution> => {
         const empty: WysylkaResolution = { mrn: null, xmlDoc: null };
         const candidates: Array<{ cacheKey: string; parameter: number | string }> = [];
@@ -358,7 +400,11 @@ export const fetchRejestrEntriesByDeclarationDate = async (
 
         let fallback: WysylkaResolution = { mrn: null, xmlDoc: null };
         for (const candidate of candidates) {
-          const resolution = await resolveMrnViaWysylka(candidate.cacheKey, candidate.parameter);
+          const resolution = await resolveMrnViaWysylka(
+            candidate.cacheKey,
+            candidate.parameter,
+            expectedYearSuffix
+          );
           if (resolution.mrn && matchesExpectedMrnYear(resolution.mrn, expectedYearSuffix)) {
             return resolution;
           }
@@ -378,6 +424,8 @@ export const fetchRejestrEntriesByDeclarationDate = async (
 
       if (rows) {
         for (const row of rows) {
+          const normalizedDate = dayForRow(row);
+          const expectedYearSuffix = normalizedDate.slice(2, 4);
           const pozRej = coerceToString(row["NRKONWPISU"]);
           const creationDate = formatDateValue(row["DATAWPISU"]);
           const sadueId = normalizeSadueId(row["IDSADU"]);
@@ -401,7 +449,12 @@ export const fetchRejestrEntriesByDeclarationDate = async (
             );
           }
 
-          const resolution = await resolveMrnForRow(sadueId, sadueSupplementId, pozRej);
+          const resolution = await resolveMrnForRow(
+            sadueId,
+            sadueSupplementId,
+            pozRej,
+            expectedYearSuffix
+          );
           const resolvedMrn = resolution.mrn;
           const resolvedHasExpectedYear =
             resolvedMrn && resolvedMrn.length > 0
@@ -469,7 +522,7 @@ export const fetchRejestrEntriesByDeclarationDate = async (
       await commitTransactionIfValid(transaction);
       transaction = null;
 
-      return entries;
+      return { entries, rows: rows ?? [] };
     } catch (error) {
       if (transaction) {
         await rollbackQuietly(transaction);
@@ -481,3 +534,52 @@ export const fetchRejestrEntriesByDeclarationDate = async (
     }
   });
 };
+
+const queryRejestrEntriesByDeclarationDate = async (
+  rawDate: string
+): Promise<RejestrSummary[]> => {
+  const normalizedDate = typeof rawDate === "string" ? rawDate.trim() : "";
+  if (!normalizedDate) {
+    throw new Error("Date value must be a non-empty string");
+  }
+
+  const parsedDate = parseIsoDateOnly(normalizedDate);
+  const { entries } = await loadRejestrEntries(
+    REJWPISY_ENRICHED_BY_DATE_SQL,
+    [parsedDate, parsedDate, parsedDate],
+    () => normalizedDate
+  );
+  return entries;
+};
+
+/** One page of registry entries declared between `from` and `to` (inclusive), keyed on IDWPISU. */
+export const fetchRejestrEntriesByDeclarationDateRange = async (
+  rawFrom: string,
+  rawTo: string,
+  options: DateRangePageOptions = {}
+): Promise<FirebirdPage<RejestrSummary>> => {
+  const query = normalizeDateRangeQuery(rawFrom, rawTo, options);
+  const { fromDate, untilDate } = query;
+  const { entries, rows } = await loadRejestrEntries(
+    REJWPISY_ENRICHED_BY_DATE_RANGE_SQL(query.pageSize),
+    [fromDate, untilDate, fromDate, untilDate, fromDate, untilDate, query.afterId],
+    (row) =>
+      pickDayInRange(query, row["SAD_DATADEKL"], row["SUPP_DATADEKL"], row["REJ_DATADEKL"]) ??
+      query.from
+  );
+
+  return {
+    from: query.from,
+    to: query.to,
+    pageSize: query.pageSize,
+    nextCursor: nextPageCursor(rows, query.pageSize, (row) => normalizeSadueId(row["IDWPISU"])),
+    rows: entries,
+  };
+};
+
+const rejestrByDateFlights = createSingleFlight<RejestrSummary[]>("firebird:rejestrByDate");
+
+export const fetchRejestrEntriesByDeclarationDate = (rawDate: string): Promise<RejestrSummary[]> =>
+  rejestrByDateFlights.run(String(rawDate).trim(), () =>
+    queryRejestrEntriesByDeclarationDate(rawDate)
+  );
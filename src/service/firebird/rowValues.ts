@@ -0,0 +1,86 @@
+/** Readers for values returned by `fetchAsObject`, shared by the Firebird repositories. */
+
+export const normalizeId = (value: unknown): number | null => {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return value;
+  }
+
+  if (typeof value === "bigint") {
+    const candidate = Number(value);
+    return Number.isFinite(candidate) ? candidate : null;
+  }
+
+  if (typeof value === "string") {
+    const trimmed = value.trim();
+    if (trimmed.length === 0) {
+      return null;
+    }
+
+    const parsed = Number.parseInt(trimmed, 10);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+
+  return null;
+};
+
+/** Decimal amounts; strings may use a comma as the decimal separator. */
+export const normalizeNumber = (value: unknown): number | null => {
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? value : null;
+  }
+  if (typeof value === "bigint") {
+    return Number(value);
+  }
+  if (typeof value === "string" && value.trim().length > 0) {
+    const parsed = Number(value.trim().replace(",", "."));
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+};
+
+/** Trimmed text, or `null` for empty values; padded CHAR columns come back trimmed. */
+export const coerceToString = (value: unknown): string | null => {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (typeof value === "string") {
+    const trimmed = value.trim();
+    return trimmed.length > 0 ? trimmed : null;
+  }
+  if (typeof value === "number" || typeof value === "bigint") {
+    return String(value);
+  }
+  return null;
+};
+
+/** Timestamps as ISO strings. */
+export const formatDateValue = (value: unknown): string | null => {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (typeof value === "string") {
+    const trimmed = value.trim();
+    return trimmed.length > 0 ? trimmed : null;
+  }
+  return null;
+};
+
+const DAY_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Calendar day (YYYY-MM-DD) of a DATE/TIMESTAMP column. The driver builds
+ * dates in server-local time, so the local components are used; ISO strings
+ * produced by `formatDateValue` are read back the same way.
+ */
+export const formatLocalDay = (value: unknown): string | null => {
+  if (typeof value === "string" && DAY_ONLY_PATTERN.test(value.trim())) {
+    return value.trim();
+  }
+  const date =
+    value instanceof Date ? value : typeof value === "string" ? new Date(value.trim()) : null;
+  if (!date || Number.isNaN(date.getTime())) {
+    return null;
+  }
+  const day = new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
+  return day.toISOString().slice(0, 10);
+};
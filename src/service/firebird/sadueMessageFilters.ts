@@ -0,0 +1,61 @@
+import { coerceToString } from "./rowValues";
+
+/** WYSYLKICELINA.TYPDOKUMENTUZRD of SADUE documents, when known for the database. */
+export const SADUE_DOCUMENT_TYPE = coerceToString(process.env.SADUE_MESSAGE_DOCUMENT_TYPE);
+
+export type SadueDocumentKeys = {
+  id: number;
+  guid: string | null;
+};
+
+/** A condition on WYSYLKICELINA `r` whose matches are keyed on `column`. */
+export type WysylkaFilter = {
+  column: "IDDOKUMENTUZRD" | "GUIDDOKUMENTUZRD";
+  condition: string;
+  parameters: unknown[];
+};
+
+const buildPlaceholders = (count: number): string => new Array(count).fill("?").join(", ");
+
+/**
+ * Conditions matching the WYSYLKICELINA messages of SADUE declarations.
+ * Messages carry the declaration GUID, or its id together with the document
+ * type (TYPDOKUMENTUZRD), since the id alone also matches other kinds of
+ * documents. Without a configured type, the type is taken from the
+ * GUID-matched messages. Empty when neither rule can be applied.
+ */
+export const sadueMessageFilters = (
+  declarations: readonly SadueDocumentKeys[]
+): WysylkaFilter[] => {
+  const ids = [...new Set(declarations.map(({ id }) => id))];
+  const guids = [...new Set(declarations.flatMap(({ guid }) => guid ?? []))];
+  const filters: WysylkaFilter[] = [];
+
+  if (guids.length > 0) {
+    filters.push({
+      column: "GUIDDOKUMENTUZRD",
+      condition: `r.GUIDDOKUMENTUZRD IN (${buildPlaceholders(guids.length)})`,
+      parameters: guids,
+    });
+  }
+  if (ids.length > 0 && SADUE_DOCUMENT_TYPE) {
+    filters.push({
+      column: "IDDOKUMENTUZRD",
+      condition: `r.IDDOKUMENTUZRD IN (${buildPlaceholders(ids.length)}) AND r.TYPDOKUMENTUZRD = ?`,
+      parameters: [...ids, SADUE_DOCUMENT_TYPE],
+    });
+  } else if (ids.length > 0 && guids.length > 0) {
+    filters.push({
+      column: "IDDOKUMENTUZRD",
+      condition: `r.IDDOKUMENTUZRD IN (${buildPlaceholders(ids.length)})
+        AND r.TYPDOKUMENTUZRD IN (
+          SELECT g.TYPDOKUMENTUZRD
+          FROM WYSYLKICELINA g
+          WHERE g.GUIDDOKUMENTUZRD IN (${buildPlaceholders(guids.length)})
+        )`,
+      parameters: [...ids, ...guids],
+    });
+  }
+
+  return filters;
+};
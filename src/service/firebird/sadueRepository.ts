@@ -0,0 +1,300 @@
+import { Blob as FirebirdBlob } from "node-firebird-driver";
+import type { Attachment, ResultSet, Transaction } from "node-firebird-driver";
+import {
+  closeResultSetQuietly,
+  rollbackQuietly,
+  withFirebirdAttachment,
+} from "./connection";
+import { createSingleFlight } from "../../utils/singleFlight";
+import { extractMessageCodeFromFileName } from "./messageCodes";
+import { coerceToString, formatDateValue, normalizeId, normalizeNumber } from "./rowValues";
+import {
+  SADUE_DOCUMENT_TYPE,
+  sadueMessageFilters,
+  type WysylkaFilter,
+} from "./sadueMessageFilters";
+import { bufferToUtf8OrBase64, readBlobAsBuffer } from "./xmlDecoders";
+
+type FirebirdRow = Record<string, unknown>;
+
+export const SADUE_DETAIL_PARTS = [
+  "sets",
+  "duties",
+  "containers",
+  "documents",
+  "messages",
+] as const;
+
+export type SadueDetailPart = (typeof SADUE_DETAIL_PARTS)[number];
+
+export type SadueDuty = {
+  id: number | null;
+  setId: number | null;
+  /** Payment type code, e.g. A00 (duty) or B00 (VAT). */
+  type: string | null;
+  base: number | null;
+  rate: number | null;
+  amount: number | null;
+  /** Method of payment (MP). */
+  method: string | null;
+};
+
+export type SadueContainer = {
+  id: number | null;
+  number: string | null;
+};
+
+export type SadueDocument = {
+  id: number | null;
+  type: number | null;
+  code: string | null;
+  number: string | null;
+  date: string | null;
+};
+
+export type SadueMessage = {
+  idWysylki: number | null;
+  messageCode: string | null;
+  fileName: string | null;
+  mrn: string | null;
+  createdAt: string | null;
+  sentAt: string | null;
+  rejected: boolean;
+};
+
+export type SadueMessagesUnavailableReason = "no_guid_or_document_type" | "document_type_unknown";
+
+/**
+ * Header and goods sets keep their Firebird column names (there are too many
+ * to map by hand); the smaller child tables are mapped to typed rows.
+ */
+export type SadueDetail = {
+  id: number;
+  header: Record<string, unknown>;
+  sets?: Record<string, unknown>[];
+  duties?: SadueDuty[];
+  containers?: SadueContainer[];
+  documents?: SadueDocument[];
+  messages?: SadueMessage[];
+  /**
+   * Set when `messages` may be incomplete: the declaration has no GUID and no
+   * SADUE document type is configured, or the type could not be derived
+   * because no message carries the GUID.
+   */
+  messagesUnavailable?: SadueMessagesUnavailableReason;
+};
+
+const SADUE_HEADER_SQL = `
+  SELECT s.*
+  FROM SADUE s
+  WHERE s.IDSADUE = ?
+`;
+
+const SADUE_SETS_SQL = `
+  SELECT z.*
+  FROM SADUEZESTAWY z
+  WHERE z.IDMSADUE = ?
+  ORDER BY z.IDSADUEZESTAWY
+`;
+
+const SADUE_DUTIES_SQL = `
+  SELECT o.ID, o.IDZESTAWU, o.TYP, o.PODSTAWA, o.STAWKA, o.KWOTA, o.MP
+  FROM SADUEOPLATYZEST o
+  WHERE o.IDSADU = ?
+  ORDER BY o.IDZESTAWU, o.ID
+`;
+
+const SADUE_CONTAINERS_SQL = `
+  SELECT k.ID, k.NRKONTENERA
+  FROM SADUEKONTENERY k
+  WHERE k.IDSADU = ?
+  ORDER BY k.ID
+`;
+
+const SADUE_DOCUMENTS_SQL = `
+  SELECT d.ID, d.TYPDOK, d.KODDOK, d.NRDOK, d.DATADOK
+  FROM SADUEDOKUM d
+  WHERE d.IDSADU = ?
+  ORDER BY d.ID
+`;
+
+const SADUE_MESSAGES_SQL = (filters: readonly WysylkaFilter[]) => `
+  SELECT
+    r.ID_WYSYLKI,
+    r.NAZWAPLIKU,
+    r.NRMRNDOK,
+    r.DATAUTWORZENIA,
+    r.DATAWYSLANIA,
+    r.ODRZUCONO
+  FROM WYSYLKICELINA r
+  WHERE ${filters.map(({ condition }) => `(${condition})`).join(" OR ")}
+  ORDER BY r.ID_WYSYLKI
+`;
+
+const executeRowsQuery = async (
+  attachment: Attachment,
+  transaction: Transaction,
+  sql: string,
+  parameters: unknown[]
+): Promise<FirebirdRow[]> => {
+  let resultSet: ResultSet | null = null;
+  try {
+    resultSet = await attachment.executeQuery(transaction, sql, parameters);
+    const rows = await resultSet.fetchAsObject<FirebirdRow>();
+    return rows ?? [];
+  } finally {
+    await closeResultSetQuietly(resultSet);
+  }
+};
+
+/**
+ * JSON-safe copy of a raw row: dates as ISO strings, bigints as strings, padded
+ * CHARs trimmed and blobs (e.g. SADUE.DANESAD) read as text.
+ */
+const normalizeRawRow = async (
+  row: FirebirdRow,
+  attachment: Attachment,
+  transaction: Transaction
+): Promise<Record<string, unknown>> => {
+  const normalized: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(row)) {
+    if (value instanceof Date) {
+      normalized[key] = value.toISOString();
+    } else if (typeof value === "bigint") {
+      normalized[key] = value.toString();
+    } else if (typeof value === "string") {
+      normalized[key] = value.trimEnd();
+    } else if (value instanceof FirebirdBlob) {
+      const buffer = await readBlobAsBuffer(attachment, transaction, value);
+      normalized[key] = buffer ? bufferToUtf8OrBase64(buffer) : null;
+    } else {
+      normalized[key] = value ?? null;
+    }
+  }
+  return normalized;
+};
+
+const toDuty = (row: FirebirdRow): SadueDuty => ({
+  id: normalizeId(row["ID"]),
+  setId: normalizeId(row["IDZESTAWU"]),
+  type: coerceToString(row["TYP"]),
+  base: normalizeNumber(row["PODSTAWA"]),
+  rate: normalizeNumber(row["STAWKA"]),
+  amount: normalizeNumber(row["KWOTA"]),
+  method: coerceToString(row["MP"]),
+});
+
+const toContainer = (row: FirebirdRow): SadueContainer => ({
+  id: normalizeId(row["ID"]),
+  number: coerceToString(row["NRKONTENERA"]),
+});
+
+const toDocument = (row: FirebirdRow): SadueDocument => ({
+  id: normalizeId(row["ID"]),
+  type: normalizeId(row["TYPDOK"]),
+  code: coerceToString(row["KODDOK"]),
+  number: coerceToString(row["NRDOK"]),
+  date: formatDateValue(row["DATADOK"]),
+});
+
+const toMessage = (row: FirebirdRow): SadueMessage => {
+  const fileName = coerceToString(row["NAZWAPLIKU"]);
+  return {
+    idWysylki: normalizeId(row["ID_WYSYLKI"]),
+    messageCode: extractMessageCodeFromFileName(fileName),
+    fileName,
+    mrn: coerceToString(row["NRMRNDOK"]),
+    createdAt: formatDateValue(row["DATAUTWORZENIA"]),
+    sentAt: formatDateValue(row["DATAWYSLANIA"]),
+    rejected: normalizeId(row["ODRZUCONO"]) === 1,
+  };
+};
+
+const querySadueDetail = async (
+  id: number,
+  parts: readonly SadueDetailPart[]
+): Promise<SadueDetail | null> =>
+  withFirebirdAttachment(async ({ attachment }) => {
+    let transaction: Transaction | null = null;
+
+    try {
+      transaction = await attachment.startTransaction();
+      const activeTransaction = transaction;
+      const query = (sql: string, parameters: unknown[]) =>
+        executeRowsQuery(attachment, activeTransaction, sql, parameters);
+
+      const normalize = (row: FirebirdRow) =>
+        normalizeRawRow(row, attachment, activeTransaction);
+
+      const [headerRow] = await query(SADUE_HEADER_SQL, [id]);
+      let detail: SadueDetail | null = null;
+      if (headerRow) {
+        detail = { id, header: await normalize(headerRow) };
+        const include = new Set(parts);
+        if (include.has("sets")) {
+          const setRows = await query(SADUE_SETS_SQL, [id]);
+          detail.sets = [];
+          for (const row of setRows) {
+            detail.sets.push(await normalize(row));
+          }
+        }
+        if (include.has("duties")) {
+          detail.duties = (await query(SADUE_DUTIES_SQL, [id])).map(toDuty);
+        }
+        if (include.has("containers")) {
+          detail.containers = (await query(SADUE_CONTAINERS_SQL, [id])).map(toContainer);
+        }
+        if (include.has("documents")) {
+          detail.documents = (await query(SADUE_DOCUMENTS_SQL, [id])).map(toDocument);
+        }
+        if (include.has("messages")) {
+          const guid = coerceToString(headerRow["GUIDSADU"]);
+          const filters = sadueMessageFilters([{ id, guid }]);
+          if (filters.length === 0) {
+            detail.messages = [];
+            detail.messagesUnavailable = "no_guid_or_document_type";
+          } else {
+            const rows = await query(
+              SADUE_MESSAGES_SQL(filters),
+              filters.flatMap(({ parameters }) => parameters)
+            );
+            detail.messages = rows.map(toMessage);
+            // The derived type comes from GUID matches, so no rows means it stayed unknown.
+            if (!SADUE_DOCUMENT_TYPE && rows.length === 0) {
+              detail.messagesUnavailable = "document_type_unknown";
+            }
+          }
+        }
+      }
+
+      if (transaction.isValid) {
+        await transaction.commit();
+      }
+      transaction = null;
+
+      return detail;
+    } catch (error) {
+      if (transaction) {
+        await rollbackQuietly(transaction);
+        transaction = null;
+      }
+      throw error;
+    }
+  });
+
+const detailFlights = createSingleFlight<SadueDetail | null>("firebird:sadueDetail");
+
+/**
+ * Loads a SAD declaration with the requested child tables. Messages are
+ * matched on the document GUID, or on the id and SADUE document type, and are
+ * not decoded, so the response stays small; `messagesUnavailable` says when
+ * the matching could not be applied in full. Resolves to `null` when no
+ * SADUE row has the id.
+ */
+export const fetchSadueDetail = (
+  id: number,
+  parts: readonly SadueDetailPart[] = SADUE_DETAIL_PARTS
+): Promise<SadueDetail | null> => {
+  const included = SADUE_DETAIL_PARTS.filter((part) => parts.includes(part));
+  return detailFlights.run(`${id}|${included.join(",")}`, () => querySadueDetail(id, included));
+};
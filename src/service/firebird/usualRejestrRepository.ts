@@ -8,6 +8,14 @@ import {
 } from "../../utils/wysylkaXml";
 import { closeResultSetQuietly, rollbackQuietly, withFirebirdAttachment } from "./connection";
 import { parseIsoDateOnly } from "./dateUtils";
+import {
+  nextPageCursor,
+  normalizeDateRangeQuery,
+  pickDayInRange,
+  type DateRangePageOptions,
+  type FirebirdPage,
+} from "./pagination";
+import { createSingleFlight } from "../../utils/singleFlight";
 import { decodeZlibBuffer, readBlobAsBuffer } from "./xmlDecoders";
 
 type FirebirdRow = Record<string, unknown>;
@@ -29,8 +37,7 @@ export type UsualRejestrSummary = {
   typZgloszenia: string | null;
 };
 
-const SADUE_USUAL_BY_DATE_SQL = `
-  SELECT
+const SADUE_USUAL_COLUMNS = `
     s.IDSADUE,
     s.GUIDSADU,
     s.DATADEKL,
@@ -41,7 +48,9 @@ const SADUE_USUAL_BY_DATE_SQL = `
     COALESCE(z_main.MRN, i_main.MRN) AS MRN,
     z_main.SET_SUM_VAT,
     z_main.SAD_NUMBER AS Z_SAD_NUMBER
-  FROM SADUE s
+`;
+
+const SADUE_USUAL_JOINS = `
   LEFT JOIN (
     SELECT
       z.IDMSADUE,
@@ -52,8 +61,9 @@ const SADUE_USUAL_BY_DATE_SQL = `
     GROUP BY z.IDMSADUE
   ) z_main ON z_main.IDMSADUE = s.IDSADUE
   LEFT JOIN ICS2 i_main ON i_main.IDSADU = s.IDSADUE
-  WHERE CAST(s.DATADEKL AS DATE) = ?
-    AND EXISTS (
+`;
+
+const HAS_ZC_MESSAGE_CONDITION = `EXISTS (
       SELECT 1
       FROM WYSYLKICELINA w
       WHERE (w.IDDOKUMENTUZRD = s.IDSADUE OR w.GUIDDOKUMENTUZRD = s.GUIDSADU)
@@ -61,10 +71,35 @@ const SADUE_USUAL_BY_DATE_SQL = `
           UPPER(COALESCE(w.NAZWAPLIKU, '')) STARTING WITH 'ZC428'
           OR UPPER(COALESCE(w.NAZWAPLIKU, '')) STARTING WITH 'ZC429'
         )
-    )
+    )`;
+
+const SADUE_USUAL_BY_DATE_SQL = `
+  SELECT
+${SADUE_USUAL_COLUMNS}
+  FROM SADUE s
+${SADUE_USUAL_JOINS}
+  WHERE CAST(s.DATADEKL AS DATE) = ?
+    AND ${HAS_ZC_MESSAGE_CONDITION}
   ORDER BY s.DATADEKL DESC, s.IDSADUE DESC
 `;
 
+// ICS2 can hold several rows per declaration, so FIRST runs over IDSADUE before the joins.
+const SADUE_USUAL_BY_DATE_RANGE_SQL = (pageSize: number) => `
+  SELECT
+${SADUE_USUAL_COLUMNS}
+  FROM (
+    SELECT FIRST ${pageSize} s.IDSADUE
+    FROM SADUE s
+    WHERE s.DATADEKL >= ? AND s.DATADEKL < ?
+      AND s.IDSADUE > ?
+      AND ${HAS_ZC_MESSAGE_CONDITION}
+    ORDER BY s.IDSADUE
+  ) page
+  JOIN SADUE s ON s.IDSADUE = page.IDSADUE
+${SADUE_USUAL_JOINS}
+  ORDER BY s.IDSADUE
+`;
+
 const WYSYLKICELINA_ZC_LOOKBACK_LIMIT = 8;
 
 const WYSYLKICELINA_RECENT_BY_DOCUMENT_SQL = `
@@ -309,26 +344,23 @@ const resolveZgloszenieKodForSadue = async (
   }
 };
 
-export const fetchUsualRejestrEntriesByDeclarationDate = async (
-  rawDate: string
-): Promise<UsualRejestrSummary[]> => {
-  const normalizedDate = typeof rawDate === "string" ? rawDate.trim() : "";
-  if (!normalizedDate) {
-    throw new Error("Date value must be a non-empty string");
-  }
-
-  const parsedDate = parseIsoDateOnly(normalizedDate);
-
-  return withFirebirdAttachment(async ({ attachment }) => {
+/**
+ * Runs one of the SADUE queries above. Rows whose declaration type is filtered
+ * out are skipped, so `rows` (for paging) can be longer than `entries`.
+ */
+const loadUsualRejestrEntries = async (
+  sql: string,
+  parameters: unknown[],
+  dayForRow: (row: FirebirdRow) => string
+): Promise<{ entries: UsualRejestrSummary[]; rows: FirebirdRow[] }> =>
+  withFirebirdAttachment(async ({ attachment }) => {
     let transaction: Transaction | null = null;
     let resultSet: ResultSet | null = null;
 
     try {
       transaction = await attachment.startTransaction();
 
-      resultSet = await attachment.executeQuery(transaction, SADUE_USUAL_BY_DATE_SQL, [
-        parsedDate,
-      ]);
+      resultSet = await attachment.executeQuery(transaction, sql, parameters);
       const rows = await resultSet.fetchAsObject<FirebirdRow>();
       await resultSet.close();
       resultSet = null;
@@ -363,7 +395,7 @@ export const fetchUsualRejestrEntriesByDeclarationDate = async (
         }
 
         entries.push({
-          date: normalizedDate,
+          date: dayForRow(row),
           creationDate: formatDateValue(row["DATADEKL"]),
           pozRej: null,
           mrn: zgl.mrn ?? mrnFromJoin,
@@ -385,7 +417,7 @@ export const fetchUsualRejestrEntriesByDeclarationDate = async (
       }
       transaction = null;
 
-      return entries;
+      return { entries, rows: rows ?? [] };
     } catch (error) {
       if (transaction) {
         await rollbackQuietly(transaction);
@@ -396,4 +428,53 @@ export const fetchUsualRejestrEntriesByDeclarationDate = async (
       await closeResultSetQuietly(resultSet);
     }
   });
+
+const queryUsualRejestrEntriesByDeclarationDate = async (
+  rawDate: string
+): Promise<UsualRejestrSummary[]> => {
+  const normalizedDate = typeof rawDate === "string" ? rawDate.trim() : "";
+  if (!normalizedDate) {
+    throw new Error("Date value must be a non-empty string");
+  }
+
+  const parsedDate = parseIsoDateOnly(normalizedDate);
+  const { entries } = await loadUsualRejestrEntries(
+    SADUE_USUAL_BY_DATE_SQL,
+    [parsedDate],
+    () => normalizedDate
+  );
+  return entries;
 };
+
+/** One page of ZC428/ZC429 declarations between `from` and `to` (inclusive), keyed on IDSADUE. */
+export const fetchUsualRejestrEntriesByDeclarationDateRange = async (
+  rawFrom: string,
+  rawTo: string,
+  options: DateRangePageOptions = {}
+): Promise<FirebirdPage<UsualRejestrSummary>> => {
+  const query = normalizeDateRangeQuery(rawFrom, rawTo, options);
+  const { entries, rows } = await loadUsualRejestrEntries(
+    SADUE_USUAL_BY_DATE_RANGE_SQL(query.pageSize),
+    [query.fromDate, query.untilDate, query.afterId],
+    (row) => pickDayInRange(query, row["DATADEKL"]) ?? query.from
+  );
+
+  return {
+    from: query.from,
+    to: query.to,
+    pageSize: query.pageSize,
+    nextCursor: nextPageCursor(rows, query.pageSize, (row) => normalizeSadueId(row["IDSADUE"])),
+    rows: entries,
+  };
+};
+
+const usualRejestrByDateFlights = createSingleFlight<UsualRejestrSummary[]>(
+  "firebird:usualRejestrByDate"
+);
+
+export const fetchUsualRejestrEntriesByDeclarationDate = (
+  rawDate: string
+): Promise<UsualRejestrSummary[]> =>
+  usualRejestrByDateFlights.run(String(rawDate).trim(), () =>
+    queryUsualRejestrEntriesByDeclarationDate(rawDate)
+  );
@@ -9,6 +9,14 @@ import {
 } from "./connection";
 import { mapWysylkaRowWithAllColumns } from "./wysylkaMapper";
 import { isIsoDateOnlyFormat, parseIsoDateOnly } from "./dateUtils";
+import {
+  normalizeDateRangeQuery,
+  nextPageCursor,
+  type DateRangePageOptions,
+  type DateRangeQuery,
+  type FirebirdPage,
+} from "./pagination";
+import { createSingleFlight } from "../../utils/singleFlight";
 
 export type FetchWysylkiByMrnOptions = {
   fileCode?: string;
@@ -20,9 +28,13 @@ export type FetchWysylkiByMrnOptions = {
 
 export type FetchWysylkiByDateOptions = FetchWysylkiByMrnOptions;
 
+export type FetchWysylkiByDateRangeOptions = Omit<FetchWysylkiByMrnOptions, "limit"> &
+  DateRangePageOptions;
+
 const SADUE_DETAILS_SQL = `
   SELECT
     r.UZYTKOWNIK,
+    r.DATADEKL,
     r.OGOLNAWARTOSC,
     r.WALUTASADU,
     r.KOMENTARZ,
@@ -100,14 +112,12 @@ const buildQueryConditions = (
   return { conditions, parameters } as const;
 };
 
-const buildDateQueryConditions = (
-  targetDate: Date,
+const appendFileFilters = (
+  conditions: string[],
+  parameters: unknown[],
   normalizedFileCode: string,
   preferXml: boolean
 ) => {
-  const conditions = ["CAST(r.DATAUTWORZENIA AS DATE) = ?"];
-  const parameters: unknown[] = [targetDate];
-
   if (normalizedFileCode) {
     conditions.push("r.NAZWAPLIKU CONTAINING ?");
     parameters.push(normalizedFileCode);
@@ -121,6 +131,30 @@ const buildDateQueryConditions = (
   return { conditions, parameters } as const;
 };
 
+const buildDateQueryConditions = (
+  targetDate: Date,
+  normalizedFileCode: string,
+  preferXml: boolean
+) =>
+  appendFileFilters(
+    ["CAST(r.DATAUTWORZENIA AS DATE) = ?"],
+    [targetDate],
+    normalizedFileCode,
+    preferXml
+  );
+
+const buildDateRangeQueryConditions = (
+  query: DateRangeQuery,
+  normalizedFileCode: string,
+  preferXml: boolean
+) =>
+  appendFileFilters(
+    ["r.DATAUTWORZENIA >= ?", "r.DATAUTWORZENIA < ?", "r.ID_WYSYLKI > ?"],
+    [query.fromDate, query.untilDate, query.afterId],
+    normalizedFileCode,
+    preferXml
+  );
+
 const normaliseLimit = (
   rawLimit: number | undefined,
   preferXml: boolean
@@ -137,7 +171,7 @@ const normaliseLimit = (
   return Math.min(candidate, 50);
 };
 
-export const fetchWysylkiByMrn = async (
+const queryWysylkiByMrn = async (
   mrn: string,
   filterOptions: FetchWysylkiByMrnOptions = {}
 ): Promise<Record<string, unknown>[]> => {
@@ -241,44 +275,16 @@ export const fetchWysylkiByMrn = async (
   });
 };
 
-export const fetchWysylkiByCreationDate = async (
-  rawDate: string,
-  filterOptions: FetchWysylkiByDateOptions = {}
+/**
+ * Runs a WYSYLKICELINA query and decodes every returned row, attaching the
+ * SADUE header of the source document when there is one.
+ */
+const loadDecodedWysylki = async (
+  sql: string,
+  parameters: unknown[],
+  decodeOptions: { includeDocumentXml: boolean; includeResponseXml: boolean }
 ): Promise<Record<string, unknown>[]> => {
-  const normalizedDate = typeof rawDate === "string" ? rawDate.trim() : "";
-  if (!normalizedDate) {
-    throw new Error("Date value must be a non-empty string");
-  }
-  if (!isIsoDateOnlyFormat(normalizedDate)) {
-    throw new Error(
-      "Date must be provided in the ISO format YYYY-MM-DD (e.g., 2025-01-03)"
-    );
-  }
-  const parsedDate = parseIsoDateOnly(normalizedDate);
-
-  const preferXml = filterOptions.preferXml === true;
-  const limit = normaliseLimit(filterOptions.limit, preferXml);
-  const normalizedFileCode =
-    typeof filterOptions.fileCode === "string" ? filterOptions.fileCode.trim() : "";
-  const includeDocumentXml =
-    filterOptions.includeDocumentXml ?? !preferXml;
-  const includeResponseXml =
-    filterOptions.includeResponseXml ?? true;
-
-  const { conditions, parameters } = buildDateQueryConditions(
-    parsedDate,
-    normalizedFileCode,
-    preferXml
-  );
-  const whereClause = conditions.join("\n        AND ");
-  const selectPrefix = limit ? `SELECT FIRST ${limit}` : "SELECT";
-  const sql = `
-      ${selectPrefix}
-        r.*
-      FROM WYSYLKICELINA r
-      WHERE ${whereClause}
-      ORDER BY r.DATAUTWORZENIA DESC, r.ID_WYSYLKI DESC
-    `;
+  const { includeDocumentXml, includeResponseXml } = decodeOptions;
 
   return withFirebirdAttachment(async ({ attachment }) => {
     let transaction: Transaction | null = null;
@@ -348,6 +354,116 @@ export const fetchWysylkiByCreationDate = async (
   });
 };
 
+const queryWysylkiByCreationDate = async (
+  rawDate: string,
+  filterOptions: FetchWysylkiByDateOptions = {}
+): Promise<Record<string, unknown>[]> => {
+  const normalizedDate = typeof rawDate === "string" ? rawDate.trim() : "";
+  if (!normalizedDate) {
+    throw new Error("Date value must be a non-empty string");
+  }
+  if (!isIsoDateOnlyFormat(normalizedDate)) {
+    throw new Error(
+      "Date must be provided in the ISO format YYYY-MM-DD (e.g., 2025-01-03)"
+    );
+  }
+  const parsedDate = parseIsoDateOnly(normalizedDate);
+
+  const preferXml = filterOptions.preferXml === true;
+  const limit = normaliseLimit(filterOptions.limit, preferXml);
+  const normalizedFileCode =
+    typeof filterOptions.fileCode === "string" ? filterOptions.fileCode.trim() : "";
+  const includeDocumentXml =
+    filterOptions.includeDocumentXml ?? !preferXml;
+  const includeResponseXml =
+    filterOptions.includeResponseXml ?? true;
+
+  const { conditions, parameters } = buildDateQueryConditions(
+    parsedDate,
+    normalizedFileCode,
+    preferXml
+  );
+  const whereClause = conditions.join("\n        AND ");
+  const selectPrefix = limit ? `SELECT FIRST ${limit}` : "SELECT";
+  const sql = `
+      ${selectPrefix}
+        r.*
+      FROM WYSYLKICELINA r
+      WHERE ${whereClause}
+      ORDER BY r.DATAUTWORZENIA DESC, r.ID_WYSYLKI DESC
+    `;
+
+  return loadDecodedWysylki(sql, parameters, { includeDocumentXml, includeResponseXml });
+};
+
+/**
+ * One page of messages created between `from` and `to` (inclusive), keyed on
+ * ID_WYSYLKI. DATAUTWORZENIA has no index, so each page walks the messages in
+ * ID_WYSYLKI order from the cursor until it is full.
+ */
+export const fetchWysylkiByCreationDateRange = async (
+  rawFrom: string,
+  rawTo: string,
+  filterOptions: FetchWysylkiByDateRangeOptions = {}
+): Promise<FirebirdPage<Record<string, unknown>>> => {
+  const query = normalizeDateRangeQuery(rawFrom, rawTo, filterOptions);
+  const preferXml = filterOptions.preferXml === true;
+  const normalizedFileCode =
+    typeof filterOptions.fileCode === "string" ? filterOptions.fileCode.trim() : "";
+
+  const { conditions, parameters } = buildDateRangeQueryConditions(
+    query,
+    normalizedFileCode,
+    preferXml
+  );
+  const sql = `
+      SELECT FIRST ${query.pageSize}
+        r.*
+      FROM WYSYLKICELINA r
+      WHERE ${conditions.join("\n        AND ")}
+      ORDER BY r.ID_WYSYLKI
+    `;
+
+  const rows = await loadDecodedWysylki(sql, parameters, {
+    includeDocumentXml: filterOptions.includeDocumentXml ?? !preferXml,
+    includeResponseXml: filterOptions.includeResponseXml ?? true,
+  });
+
+  return {
+    from: query.from,
+    to: query.to,
+    pageSize: query.pageSize,
+    nextCursor: nextPageCursor(rows, query.pageSize, (row) =>
+      typeof row.idWysylki === "number" ? row.idWysylki : null
+    ),
+    rows,
+  };
+};
+
+const wysylkiByMrnFlights = createSingleFlight<Record<string, unknown>[]>(
+  "firebird:wysylkiByMrn"
+);
+const wysylkiByDateFlights = createSingleFlight<Record<string, unknown>[]>(
+  "firebird:wysylkiByDate"
+);
+
+/** Dashboards often ask for the same MRN at once; identical concurrent calls share one query. */
+export const fetchWysylkiByMrn = (
+  mrn: string,
+  filterOptions: FetchWysylkiByMrnOptions = {}
+): Promise<Record<string, unknown>[]> =>
+  wysylkiByMrnFlights.run(JSON.stringify([String(mrn).trim(), filterOptions]), () =>
+    queryWysylkiByMrn(mrn, filterOptions)
+  );
+
+export const fetchWysylkiByCreationDate = (
+  rawDate: string,
+  filterOptions: FetchWysylkiByDateOptions = {}
+): Promise<Record<string, unknown>[]> =>
+  wysylkiByDateFlights.run(JSON.stringify([String(rawDate).trim(), filterOptions]), () =>
+    queryWysylkiByCreationDate(rawDate, filterOptions)
+  );
+
 export const checkFirebirdConnection = async (): Promise<void> => {
   const config = getFirebirdConfig();
   const uri = buildConnectionUri(config);
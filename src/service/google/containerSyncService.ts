@@ -0,0 +1,144 @@
+import type { ContainerSyncColumns } from "../../config/googleSheetsConfig";
+import type { GoogleSheetsTable } from "../../config/googleSheetsTables";
+import { listTerminalAdapters, lookupAllTerminals, type MergedContainerRecord } from "../terminals";
+import { mapWithConcurrency } from "../../utils/concurrency";
+import { validateContainerNumber } from "../../utils/containerNumber";
+import { fetchColumnForTable, writeCells, type CellWrite } from "./sheetsService";
+
+type SyncField = "cen" | "stop" | "tState";
+
+const SYNC_FIELDS: readonly SyncField[] = ["cen", "stop", "tState"];
+
+const MERGED_FIELDS: Record<SyncField, "cen" | "stops" | "customsState"> = {
+  cen: "cen",
+  stop: "stops",
+  tState: "customsState",
+};
+
+const readField = (record: MergedContainerRecord, field: SyncField): string =>
+  record[MERGED_FIELDS[field]] ?? "";
+
+const describeMiss = (record: MergedContainerRecord | undefined): string => {
+  if (!record) return "skipped";
+  const errors = Object.entries(record.errors ?? {});
+  return errors.length > 0
+    ? errors.map(([terminal, message]) => `${terminal}: ${message}`).join("; ")
+    : "not_found";
+};
+
+export type ContainerSyncOptions = {
+  columns: ContainerSyncColumns;
+  concurrency: number;
+  /** Computes the summary without writing anything to the sheet. */
+  dryRun?: boolean;
+};
+
+export type ContainerSyncFailure = {
+  row: number;
+  container: string;
+  reason: string;
+};
+
+export type ContainerSyncSummary = {
+  spreadsheetId: string;
+  sheetName: string;
+  columns: ContainerSyncColumns;
+  dryRun: boolean;
+  total: number;
+  updated: number;
+  unchanged: number;
+  failed: number;
+  updatedRows: number[];
+  failures: ContainerSyncFailure[];
+  cellsWritten: number;
+};
+
+/**
+ * Reads the container column of a table, looks every container up on all
+ * terminals and writes CEN / stop / T-state back into the same rows.
+ * Rows whose lookup failed are reported and left untouched.
+ */
+export const syncContainerColumns = async (
+  table: GoogleSheetsTable,
+  options: ContainerSyncOptions
+): Promise<ContainerSyncSummary> => {
+  const { columns } = options;
+  const source = await fetchColumnForTable(table, columns.container);
+
+  const targets: Partial<Record<SyncField, { columnIndex: number; values: Map<number, string> }>> =
+    {};
+  for (const field of SYNC_FIELDS) {
+    if (!columns[field]) continue;
+    const column = await fetchColumnForTable(table, columns[field]);
+    targets[field] = {
+      columnIndex: column.columnIndex,
+      values: new Map(column.cells.map((cell) => [cell.row, cell.value])),
+    };
+  }
+
+  const failures: ContainerSyncFailure[] = [];
+  const rows: Array<{ row: number; container: string }> = [];
+  for (const cell of source.cells) {
+    const validation = validateContainerNumber(cell.value);
+    if (validation.valid) {
+      rows.push({ row: cell.row, container: validation.value });
+    } else {
+      failures.push({ row: cell.row, container: cell.value, reason: validation.reason });
+    }
+  }
+
+  const adapters = listTerminalAdapters();
+  const records = await mapWithConcurrency(
+    [...new Set(rows.map((row) => row.container))],
+    options.concurrency,
+    (container) => lookupAllTerminals(container, adapters)
+  );
+  const byContainer = new Map(records.map((record) => [record.container, record]));
+
+  const writes: CellWrite[] = [];
+  const updatedRows: number[] = [];
+  let unchanged = 0;
+  for (const { row, container } of rows) {
+    const record = byContainer.get(container);
+    if (!record || record.foundAt.length === 0) {
+      failures.push({ row, container, reason: describeMiss(record) });
+      continue;
+    }
+
+    const rowWrites: CellWrite[] = [];
+    for (const field of SYNC_FIELDS) {
+      const target = targets[field];
+      if (!target) continue;
+      const value = readField(record, field);
+      if ((target.values.get(row) ?? "") !== value) {
+        rowWrites.push({ row, columnIndex: target.columnIndex, value });
+      }
+    }
+
+    if (rowWrites.length === 0) {
+      unchanged += 1;
+    } else {
+      writes.push(...rowWrites);
+      updatedRows.push(row);
+    }
+  }
+
+  const cellsWritten = options.dryRun
+    ? 0
+    : await writeCells(table.id, source.sheetName, writes);
+
+  failures.sort((a, b) => a.row - b.row);
+  return {
+    spreadsheetId: table.id,
+    sheetName: source.sheetName,
+    columns,
+    dryRun: options.dryRun === true,
+    total: source.cells.length,
+    updated: updatedRows.length,
+    unchanged,
+    failed: failures.length,
+    updatedRows,
+    failures,
+    cellsWritten,
+  };
+};
@@ -107,11 +107,21 @@ export interface ColumnFetchParams {
   sheetId?: number;
 }
 
+export interface ColumnCell {
+  /** 1-based sheet row number. */
+  row: number;
+  value: string;
+}
+
 export interface ColumnFetchResult {
   spreadsheetId: string;
   sheetName: string;
   header: string;
   values: string[];
+  /** 0-based column index; `-1` when the sheet is empty. */
+  columnIndex: number;
+  /** Non-empty values together with the row they were read from. */
+  cells: ColumnCell[];
 }
 
 const resolveSheetName = async (
@@ -168,6 +178,8 @@ export const fetchColumnByHeader = async (
       sheetName,
       header: params.headerName,
       values: [],
+      columnIndex: -1,
+      cells: [],
     };
   }
 
@@ -186,12 +198,14 @@ export const fetchColumnByHeader = async (
   }
 
   const values: string[] = [];
+  const cells: ColumnCell[] = [];
   for (let rowIndex = 1; rowIndex < rows.length; rowIndex += 1) {
     const row = rows[rowIndex];
     const rawValue = row?.[targetIndex];
     const normalized = normalizeCellValue(rawValue);
     if (normalized !== null) {
       values.push(normalized);
+      cells.push({ row: rowIndex + 1, value: normalized });
     }
   }
 
@@ -200,6 +214,8 @@ export const fetchColumnByHeader = async (
     sheetName,
     header: params.headerName,
     values,
+    columnIndex: targetIndex,
+    cells,
   };
 };
 
@@ -241,6 +257,41 @@ export const fetchColumnByTableIdentifier = async (
   return fetchColumnForTable(table, headerName);
 };
 
+export interface CellWrite {
+  /** 1-based sheet row number. */
+  row: number;
+  /** 0-based column index. */
+  columnIndex: number;
+  value: string;
+}
+
+/**
+ * Writes individual cells in a single `values.batchUpdate` call.
+ */
+export const writeCells = async (
+  spreadsheetId: string,
+  sheetName: string,
+  cells: readonly CellWrite[],
+): Promise<number> => {
+  if (cells.length === 0) {
+    return 0;
+  }
+
+  const sheets = await getSheetsClient();
+  const response = await sheets.spreadsheets.values.batchUpdate({
+    spreadsheetId,
+    requestBody: {
+      valueInputOption: "RAW",
+      data: cells.map((cell) => ({
+        range: `'${escapeSheetName(sheetName)}'!${columnIndexToLetter(cell.columnIndex)}${cell.row}`,
+        values: [[cell.value]],
+      })),
+    },
+  });
+
+  return response.data.totalUpdatedCells ?? cells.length;
+};
+
 export interface HeaderUpdateResult {
   spreadsheetId: string;
   sheetName: string;
@@ -0,0 +1,68 @@
+import { getLookupCacheConfig, type LookupCacheSource } from "../config/lookupCacheConfig";
+import { TtlCache, type CachedValue } from "../utils/ttlCache";
+import type { BctInfo, ContainerInfo } from "../types/index";
+
+export type LookupCacheStatus = {
+  hit: boolean;
+  ageMs: number;
+};
+
+type CacheValueBySource = {
+  baltichub: ContainerInfo;
+  bct: BctInfo;
+};
+
+const config = getLookupCacheConfig();
+const cache = new TtlCache<ContainerInfo | BctInfo>({ snapshotPath: config.snapshotPath });
+
+const cacheKey = (source: LookupCacheSource, cont: string): string => `${source}:${cont}`;
+
+const isNegative = (value: ContainerInfo | BctInfo): boolean =>
+  Object.values(value).every((field) => typeof field !== "string" || !field);
+
+export const readCachedLookup = <S extends LookupCacheSource>(
+  source: S,
+  cont: string
+): CachedValue<CacheValueBySource[S]> | undefined => {
+  if (!config.enabled) {
+    return undefined;
+  }
+  return cache.get(cacheKey(source, cont)) as CachedValue<CacheValueBySource[S]> | undefined;
+};
+
+export const storeCachedLookup = <S extends LookupCacheSource>(
+  source: S,
+  cont: string,
+  value: CacheValueBySource[S]
+): void => {
+  if (!config.enabled) {
+    return;
+  }
+
+  const { ttlMs, negativeTtlMs } = config.sources[source];
+  cache.set(cacheKey(source, cont), value, isNegative(value) ? negativeTtlMs : ttlMs);
+};
+
+/**
+ * Splits containers into cache hits and the ones that still need an upstream call.
+ * `fresh` skips the cache lookup entirely (results are still stored afterwards).
+ */
+export const partitionCachedLookups = <S extends LookupCacheSource>(
+  source: S,
+  containers: readonly string[],
+  fresh: boolean
+) => {
+  const hits: Record<string, CachedValue<CacheValueBySource[S]>> = {};
+  const misses: string[] = [];
+
+  for (const cont of containers) {
+    const cached = fresh ? undefined : readCachedLookup(source, cont);
+    if (cached) {
+      hits[cont] = cached;
+    } else {
+      misses.push(cont);
+    }
+  }
+
+  return { hits, misses };
+};
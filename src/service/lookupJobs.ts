@@ -0,0 +1,126 @@
+import crypto from "crypto";
+import {
+  lookupBaltichubContainers,
+  toBaltichubMapEntry,
+  type BaltichubMapEntry,
+  type ContainerDetailField,
+} from "./containerLookup";
+import type { LookupCacheStatus } from "./lookupCache";
+import type { ConcurrencyLimit } from "../utils/concurrency";
+
+export type LookupJobStatus = "running" | "completed" | "cancelled" | "failed";
+
+export type LookupJobInput = {
+  containers: string[];
+  wantT: boolean;
+  detailFields: ContainerDetailField[];
+  fresh: boolean;
+  batchSize?: number;
+  concurrency: ConcurrencyLimit;
+  invalid: unknown[];
+  corrected: unknown[];
+};
+
+export type LookupJob = {
+  id: string;
+  status: LookupJobStatus;
+  createdAt: string;
+  finishedAt: string | null;
+  expiresAt: string | null;
+  total: number;
+  done: number;
+  failures: string[];
+  map: Record<string, BaltichubMapEntry>;
+  cache: Record<string, LookupCacheStatus>;
+  invalid: unknown[];
+  corrected: unknown[];
+  concurrency: ConcurrencyLimit;
+  error?: string;
+};
+
+const DEFAULT_RETENTION_MS = 60 * 60_000;
+
+const parseRetentionMs = (raw: string | undefined): number => {
+  const parsed = Number.parseInt(raw ?? "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_RETENTION_MS;
+};
+
+const retentionMs = parseRetentionMs(process.env.LOOKUP_JOB_RETENTION_MS);
+const jobs = new Map<string, LookupJob>();
+
+const purgeExpiredJobs = () => {
+  const now = Date.now();
+  for (const [id, job] of jobs) {
+    if (job.expiresAt && Date.parse(job.expiresAt) <= now) {
+      jobs.delete(id);
+    }
+  }
+};
+
+const finishJob = (job: LookupJob, status: LookupJobStatus) => {
+  if (job.status !== "running") {
+    return;
+  }
+
+  const now = Date.now();
+  job.status = status;
+  job.finishedAt = new Date(now).toISOString();
+  job.expiresAt = new Date(now + retentionMs).toISOString();
+};
+
+export const startLookupJob = (input: LookupJobInput): LookupJob => {
+  purgeExpiredJobs();
+
+  const job: LookupJob = {
+    id: crypto.randomUUID(),
+    status: "running",
+    createdAt: new Date().toISOString(),
+    finishedAt: null,
+    expiresAt: null,
+    total: input.containers.length,
+    done: 0,
+    failures: [],
+    map: {},
+    cache: {},
+    invalid: input.invalid,
+    corrected: input.corrected,
+    concurrency: input.concurrency,
+  };
+  jobs.set(job.id, job);
+
+  lookupBaltichubContainers(input.containers, {
+    concurrency: input.concurrency,
+    fresh: input.fresh,
+    batchSize: input.batchSize,
+    shouldStop: () => job.status !== "running",
+    onResult: ({ container, info, cache }) => {
+      job.done += 1;
+      job.cache[container] = cache;
+      if (info) {
+        job.map[container] = toBaltichubMapEntry(info, input.wantT, input.detailFields);
+      } else {
+        job.failures.push(container);
+      }
+    },
+  })
+    .then(() => finishJob(job, "completed"))
+    .catch((error) => {
+      job.error = error instanceof Error ? error.message : String(error);
+      finishJob(job, "failed");
+    });
+
+  return job;
+};
+
+export const getLookupJob = (id: string): LookupJob | undefined => {
+  purgeExpiredJobs();
+  return jobs.get(id);
+};
+
+export const cancelLookupJob = (id: string): LookupJob | undefined => {
+  const job = getLookupJob(id);
+  if (job) {
+    finishJob(job, "cancelled");
+  }
+  return job;
+};
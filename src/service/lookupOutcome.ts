@@ -0,0 +1,63 @@
+import axios from "axios";
+import { CircuitOpenError } from "../utils/hostPolicy";
+import type { LookupOutcome, LookupOutcomeState } from "../types/index";
+
+const TIMEOUT_CODES = new Set(["ECONNABORTED", "ETIMEDOUT", "ESOCKETTIMEDOUT"]);
+
+/** Outcomes that mean the upstream answered and the result can be trusted (and cached). */
+export const isSettledOutcome = (outcome: LookupOutcome): boolean =>
+  outcome.state === "found" || outcome.state === "not_found";
+
+export const classifyLookupError = (
+  error: unknown
+): { state: LookupOutcomeState; message: string } => {
+  if (error instanceof CircuitOpenError) {
+    return { state: "upstream_blocked", message: error.message };
+  }
+  if (axios.isAxiosError(error)) {
+    if (error.code && TIMEOUT_CODES.has(error.code)) {
+      return { state: "timeout", message: error.message };
+    }
+    const status = error.response?.status;
+    return {
+      state: "http_error",
+      message: status ? `HTTP ${status}: ${error.message}` : error.message,
+    };
+  }
+
+  return {
+    state: "http_error",
+    message: error instanceof Error ? error.message : String(error),
+  };
+};
+
+/**
+ * Tracks the last failure across retries so the final outcome reports why the
+ * lookup gave up rather than just that it did.
+ */
+export const createOutcomeTracker = () => {
+  let attempts = 0;
+  let lastFailure: { state: LookupOutcomeState; message: string } | null = null;
+
+  return {
+    attempt: () => {
+      attempts += 1;
+    },
+    fail: (state: LookupOutcomeState, message: string) => {
+      lastFailure = { state, message };
+    },
+    failWith: (error: unknown) => {
+      lastFailure = classifyLookupError(error);
+    },
+    settle: (state: LookupOutcomeState): LookupOutcome => ({
+      state,
+      attempts,
+      ...(lastFailure ? { lastError: lastFailure.message } : {}),
+    }),
+    giveUp: (): LookupOutcome => ({
+      state: lastFailure?.state ?? "http_error",
+      attempts,
+      lastError: lastFailure?.message ?? "No attempts were made",
+    }),
+  };
+};
@@ -0,0 +1,51 @@
+import { fetchBaltichubCsvWithOutcome, type ContainerCsvRecord } from "../containerService";
+import { TerminalUnavailableError } from "./errors";
+import type { TerminalAdapter, TerminalContainerRecord } from "./types";
+
+const toIsoTimestamp = (value: number | undefined): string | undefined =>
+  typeof value === "number" && Number.isFinite(value) ? new Date(value).toISOString() : undefined;
+
+const toRecord = (containerId: string, info: ContainerCsvRecord): TerminalContainerRecord => ({
+  containerId,
+  terminal: "baltichub",
+  customsState: info.t_state,
+  cen: info.cen,
+  stops: info.stop,
+  timeIn: info.details?.timeIn ?? toIsoTimestamp(info.timeIn),
+  timeOut: info.details?.timeOut ?? toIsoTimestamp(info.timeOut),
+  raw: { ...(info.details?.raw ?? {}) },
+});
+
+export class BaltichubAdapter implements TerminalAdapter {
+  readonly id = "baltichub";
+  readonly name = "Baltic Hub (DCT Gdańsk)";
+  readonly location = "Gdańsk";
+  readonly website = "https://baltichub.com";
+
+  async lookup(containerId: string): Promise<TerminalContainerRecord | null> {
+    const records = await this.lookupMany([containerId]);
+    return records[containerId] ?? null;
+  }
+
+  async lookupMany(
+    containerIds: readonly string[]
+  ): Promise<Record<string, TerminalContainerRecord>> {
+    const records: Record<string, TerminalContainerRecord> = {};
+    if (containerIds.length === 0) {
+      return records;
+    }
+
+    const { info, outcome } = await fetchBaltichubCsvWithOutcome(containerIds);
+    if (!info) {
+      throw new TerminalUnavailableError(this.id, outcome);
+    }
+
+    for (const containerId of containerIds) {
+      const entry = info[containerId];
+      if (entry) {
+        records[containerId] = toRecord(containerId, entry);
+      }
+    }
+    return records;
+  }
+}
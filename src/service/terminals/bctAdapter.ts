@@ -0,0 +1,37 @@
+import { fetchBctForContainerWithOutcome } from "../containerService";
+import { isSettledOutcome } from "../lookupOutcome";
+import { TerminalUnavailableError } from "./errors";
+import type { BctInfo } from "../../types/index";
+import type { TerminalAdapter, TerminalContainerRecord } from "./types";
+
+export const bctInfoToRecord = (
+  containerId: string,
+  info: BctInfo
+): TerminalContainerRecord | null => {
+  if (!info.cen && !info.status && !info.fields) {
+    return null;
+  }
+
+  return {
+    containerId,
+    terminal: "bct",
+    customsState: info.status,
+    cen: info.cen,
+    raw: { ...(info.fields ?? {}) },
+  };
+};
+
+export class BctAdapter implements TerminalAdapter {
+  readonly id = "bct";
+  readonly name = "Baltic Container Terminal (eBrama)";
+  readonly location = "Gdynia";
+  readonly website = "https://ebrama.bct.ictsi.com";
+
+  async lookup(containerId: string): Promise<TerminalContainerRecord | null> {
+    const { info, outcome } = await fetchBctForContainerWithOutcome(containerId);
+    if (!isSettledOutcome(outcome)) {
+      throw new TerminalUnavailableError(this.id, outcome);
+    }
+    return bctInfoToRecord(containerId, info);
+  }
+}
@@ -0,0 +1,13 @@
+import type { LookupOutcome } from "../../types/index";
+
+/** Thrown by adapters when the terminal could not be asked, as opposed to not knowing the container. */
+export class TerminalUnavailableError extends Error {
+  constructor(readonly terminal: string, readonly outcome: LookupOutcome) {
+    super(
+      `${terminal} lookup failed (${outcome.state})${
+        outcome.lastError ? `: ${outcome.lastError}` : ""
+      }`
+    );
+    this.name = "TerminalUnavailableError";
+  }
+}
@@ -0,0 +1,25 @@
+import { BaltichubAdapter } from "./baltichubAdapter";
+import { BctAdapter } from "./bctAdapter";
+import type { TerminalAdapter, TerminalDescriptor } from "./types";
+
+export type { TerminalAdapter, TerminalContainerRecord, TerminalDescriptor } from "./types";
+export type { MergedContainerRecord, TerminalConflict } from "./lookupAll";
+export { bctInfoToRecord } from "./bctAdapter";
+export { TerminalUnavailableError } from "./errors";
+export { lookupAllTerminals } from "./lookupAll";
+export { toObservedState } from "./observedState";
+
+const adapters: TerminalAdapter[] = [new BaltichubAdapter(), new BctAdapter()];
+
+export const listTerminalAdapters = (): TerminalAdapter[] => [...adapters];
+
+export const getTerminalAdapter = (id: string): TerminalAdapter | undefined =>
+  adapters.find((adapter) => adapter.id === id.trim().toLowerCase());
+
+export const describeTerminal = (adapter: TerminalAdapter): TerminalDescriptor => ({
+  id: adapter.id,
+  name: adapter.name,
+  location: adapter.location,
+  website: adapter.website,
+  supportsBatch: typeof adapter.lookupMany === "function",
+});
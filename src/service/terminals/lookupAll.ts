@@ -0,0 +1,105 @@
+import { recordContainerObservation } from "../containerHistory";
+import { toObservedState } from "./observedState";
+import type { TerminalAdapter, TerminalContainerRecord } from "./types";
+
+type MergedField = "cen" | "customsState" | "stops" | "timeIn" | "timeOut";
+
+export type TerminalConflict = {
+  field: "cen" | "customsState";
+  values: Record<string, string>;
+};
+
+export type MergedContainerRecord = {
+  container: string;
+  foundAt: string[];
+  cen?: string;
+  customsState?: string;
+  stops?: string;
+  timeIn?: string;
+  timeOut?: string;
+  conflicts: TerminalConflict[];
+  sources: Record<string, TerminalContainerRecord | null>;
+  errors?: Record<string, string>;
+};
+
+const MERGED_FIELDS: readonly MergedField[] = ["cen", "customsState", "stops", "timeIn", "timeOut"];
+const CONFLICT_FIELDS: readonly TerminalConflict["field"][] = ["cen", "customsState"];
+
+// CEN values may list several numbers ("A,B"), so compare them as unordered sets.
+const comparableValue = (field: TerminalConflict["field"], value: string): string =>
+  field === "cen"
+    ? value
+        .split(/[;,\s]+/)
+        .map((token) => token.trim().toUpperCase())
+        .filter((token) => token.length > 0)
+        .sort()
+        .join(",")
+    : value.replace(/\s+/g, " ").trim().toLowerCase();
+
+const findConflicts = (records: TerminalContainerRecord[]): TerminalConflict[] => {
+  const conflicts: TerminalConflict[] = [];
+  for (const field of CONFLICT_FIELDS) {
+    const values: Record<string, string> = {};
+    const distinct = new Set<string>();
+    for (const record of records) {
+      const value = record[field];
+      if (!value) continue;
+      values[record.terminal] = value;
+      distinct.add(comparableValue(field, value));
+    }
+    if (distinct.size > 1) {
+      conflicts.push({ field, values });
+    }
+  }
+  return conflicts;
+};
+
+/**
+ * Queries every adapter in parallel and merges the answers. Merged fields take the
+ * first non-empty value in adapter order; disagreements on CEN or customs state are
+ * reported in `conflicts`.
+ */
+export const lookupAllTerminals = async (
+  container: string,
+  adapters: readonly TerminalAdapter[]
+): Promise<MergedContainerRecord> => {
+  const errors: Record<string, string> = {};
+  const sources: Record<string, TerminalContainerRecord | null> = {};
+
+  await Promise.all(
+    adapters.map(async (adapter) => {
+      try {
+        sources[adapter.id] = await adapter.lookup(container);
+      } catch (error) {
+        sources[adapter.id] = null;
+        errors[adapter.id] = error instanceof Error ? error.message : String(error);
+      }
+    })
+  );
+
+  const found = adapters
+    .map((adapter) => sources[adapter.id])
+    .filter((record): record is TerminalContainerRecord => Boolean(record));
+
+  for (const record of found) {
+    recordContainerObservation(record.terminal, container, toObservedState(record));
+  }
+
+  const merged: MergedContainerRecord = {
+    container,
+    foundAt: found.map((record) => record.terminal),
+    conflicts: findConflicts(found),
+    sources,
+  };
+  for (const field of MERGED_FIELDS) {
+    const value = found.map((record) => record[field]).find((candidate) => candidate);
+    if (value) {
+      merged[field] = value;
+    }
+  }
+  if (Object.keys(errors).length > 0) {
+    merged.errors = errors;
+  }
+
+  return merged;
+};
@@ -0,0 +1,10 @@
+import type { TerminalContainerRecord } from "./types";
+
+/** The subset of a record that is tracked for history and change detection. */
+export const toObservedState = (
+  record: TerminalContainerRecord | null
+): { cen: string; stop: string; t_state: string } => ({
+  cen: record?.cen ?? "",
+  stop: record?.stops ?? "",
+  t_state: record?.customsState ?? "",
+});
@@ -0,0 +1,37 @@
+/**
+ * Terminal-agnostic view of a container as reported by one terminal.
+ */
+export interface TerminalContainerRecord {
+  containerId: string;
+  terminal: string;
+  customsState?: string;
+  cen?: string;
+  stops?: string;
+  timeIn?: string;
+  timeOut?: string;
+  raw: Record<string, string>;
+}
+
+export interface TerminalDescriptor {
+  id: string;
+  name: string;
+  location: string;
+  website: string;
+  supportsBatch: boolean;
+}
+
+export interface TerminalAdapter {
+  readonly id: string;
+  readonly name: string;
+  readonly location: string;
+  readonly website: string;
+
+  /**
+   * Resolves to `null` when the terminal does not know the container; rejects
+   * (with `TerminalUnavailableError`) when the terminal could not be asked.
+   */
+  lookup(containerId: string): Promise<TerminalContainerRecord | null>;
+
+  /** Optional multi-id lookup; containers missing from the result are unknown to the terminal. Rejects like `lookup`. */
+  lookupMany?(containerIds: readonly string[]): Promise<Record<string, TerminalContainerRecord>>;
+}
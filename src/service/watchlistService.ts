@@ -0,0 +1,304 @@
+import crypto from "crypto";
+import path from "path";
+import { getWatchlistConfig } from "../config/watchlistConfig";
+import { recordContainerObservation } from "./containerHistory";
+import { listTerminalAdapters, toObservedState } from "./terminals";
+import { mapWithConcurrency } from "../utils/concurrency";
+import { webhookHttp } from "../utils/http";
+import {
+  createDebouncedWriter,
+  readJsonFileSync,
+  resolveDataPath,
+  writeJsonFileAtomic,
+} from "../utils/jsonFile";
+
+/** Terminal adapter id. */
+export type WatchSource = string;
+
+export type WatchStatus = "active" | "expired" | "completed";
+
+export type WatchSnapshot = {
+  cen: string;
+  stop: string;
+  t_state: string;
+};
+
+export type WatchDelivery = {
+  at: string;
+  event: WatchEvent;
+  ok: boolean;
+  statusCode?: number;
+  error?: string;
+};
+
+export type Watch = {
+  id: string;
+  /** SHA-256 of the API key that created the watch; other keys cannot see it. */
+  owner: string;
+  container: string;
+  callbackUrl: string;
+  labels: string[];
+  secret: string;
+  status: WatchStatus;
+  createdAt: string;
+  expiresAt: string;
+  finishedAt: string | null;
+  lastCheckedAt: string | null;
+  seenAtTerminal: boolean;
+  missingPolls: number;
+  state: Partial<Record<WatchSource, WatchSnapshot>>;
+  lastDelivery: WatchDelivery | null;
+};
+
+export type PublicWatch = Omit<Watch, "secret" | "owner">;
+
+type WatchEvent = "changed" | "left_terminal";
+
+export type CreateWatchesInput = {
+  owner: string;
+  containers: readonly string[];
+  callbackUrl: string;
+  labels?: readonly string[];
+  ttlMs?: number;
+};
+
+const SNAPSHOT_FIELDS: readonly (keyof WatchSnapshot)[] = ["cen", "stop", "t_state"];
+const FINISHED_RETENTION_MS = 24 * 60 * 60_000;
+
+const config = getWatchlistConfig();
+const storePath = resolveDataPath(config.storePath, path.join("data", "watchlist.json"));
+
+let watches: Map<string, Watch> | null = null;
+
+const loadWatches = (): Map<string, Watch> => {
+  if (!watches) {
+    const parsed = readJsonFileSync<Watch[]>(storePath, "watchlist");
+    watches = new Map(
+      (Array.isArray(parsed) ? parsed : []).map((watch) => [watch.id, watch] as const)
+    );
+  }
+  return watches;
+};
+
+const scheduleWrite = createDebouncedWriter(
+  () => writeJsonFileAtomic(storePath, [...loadWatches().values()], "watchlist"),
+  1_000
+);
+
+export const toPublicWatch = ({ secret: _secret, owner: _owner, ...watch }: Watch): PublicWatch =>
+  watch;
+
+/** Hashes an API key into the `owner` stored on its watches. */
+export const watchOwnerOf = (apiKey: string): string =>
+  crypto.createHash("sha256").update(apiKey).digest("hex");
+
+/** Creates one watch per container, each with its own webhook signing secret. */
+export const createWatches = (input: CreateWatchesInput): Watch[] => {
+  const store = loadWatches();
+  const now = Date.now();
+  const ttlMs = Math.min(input.ttlMs ?? config.defaultTtlMs, config.maxTtlMs);
+  const labels = [...(input.labels ?? [])];
+
+  const created = input.containers.map((container): Watch => {
+    const watch: Watch = {
+      id: crypto.randomUUID(),
+      owner: input.owner,
+      container,
+      callbackUrl: input.callbackUrl,
+      labels,
+      secret: crypto.randomBytes(24).toString("hex"),
+      status: "active",
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + ttlMs).toISOString(),
+      finishedAt: null,
+      lastCheckedAt: null,
+      seenAtTerminal: false,
+      missingPolls: 0,
+      state: {},
+      lastDelivery: null,
+    };
+    store.set(watch.id, watch);
+    return watch;
+  });
+
+  scheduleWrite();
+  return created;
+};
+
+export const listWatches = (owner: string): Watch[] =>
+  [...loadWatches().values()].filter((watch) => watch.owner === owner);
+
+export const getWatch = (id: string, owner: string): Watch | undefined => {
+  const watch = loadWatches().get(id);
+  return watch?.owner === owner ? watch : undefined;
+};
+
+export const deleteWatch = (id: string, owner: string): boolean => {
+  if (!getWatch(id, owner)) {
+    return false;
+  }
+  loadWatches().delete(id);
+  scheduleWrite();
+  return true;
+};
+
+const signPayload = (secret: string, timestamp: string, body: string): string =>
+  crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+
+const deliverWebhook = async (
+  watch: Watch,
+  event: WatchEvent,
+  details: Record<string, unknown>
+): Promise<void> => {
+  const timestamp = new Date().toISOString();
+  const body = JSON.stringify({
+    event,
+    watchId: watch.id,
+    container: watch.container,
+    labels: watch.labels,
+    occurredAt: timestamp,
+    ...details,
+  });
+
+  try {
+    const response = await webhookHttp.post(watch.callbackUrl, body, {
+      headers: {
+        "Content-Type": "application/json",
+        "X-Watchlist-Timestamp": timestamp,
+        "X-Watchlist-Signature": `sha256=${signPayload(watch.secret, timestamp, body)}`,
+      },
+      timeout: config.webhookTimeoutMs,
+    });
+    watch.lastDelivery = { at: timestamp, event, ok: true, statusCode: response.status };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.warn(`[watchlist] Webhook for ${watch.container} (${watch.id}) failed: ${message}`);
+    watch.lastDelivery = { at: timestamp, event, ok: false, error: message };
+  }
+};
+
+type PollResult = {
+  /** Snapshots from the terminals that know the container. */
+  found: Record<WatchSource, WatchSnapshot>;
+  /** Terminals that could not be asked (block page, timeout, open circuit). */
+  unavailable: WatchSource[];
+};
+
+const pollContainer = async (cont: string): Promise<PollResult> => {
+  const result: PollResult = { found: {}, unavailable: [] };
+  await Promise.all(
+    listTerminalAdapters().map(async (adapter) => {
+      try {
+        const record = await adapter.lookup(cont);
+        if (!record) return;
+        const snapshot = toObservedState(record);
+        recordContainerObservation(record.terminal, cont, snapshot);
+        result.found[record.terminal] = snapshot;
+      } catch (error) {
+        result.unavailable.push(adapter.id);
+        console.warn(
+          `[watchlist] ${adapter.id} lookup for ${cont} failed: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+      }
+    })
+  );
+  return result;
+};
+
+const applyPollResult = async (watch: Watch, result: PollResult, checkedAt: string) => {
+  watch.lastCheckedAt = checkedAt;
+
+  for (const [source, after] of Object.entries(result.found)) {
+    const before = watch.state[source];
+    watch.state[source] = after;
+    if (!before) {
+      continue;
+    }
+
+    const changedFields = SNAPSHOT_FIELDS.filter((field) => before[field] !== after[field]);
+    if (changedFields.length > 0) {
+      await deliverWebhook(watch, "changed", { source, changedFields, before, after });
+    }
+  }
+
+  if (Object.keys(result.found).length > 0) {
+    watch.seenAtTerminal = true;
+    watch.missingPolls = 0;
+    return;
+  }
+
+  // Only a poll where every terminal answered "not found" counts; an outage proves nothing.
+  if (result.unavailable.length > 0) {
+    return;
+  }
+
+  // A single miss can be a terminal hiccup, so require several in a row.
+  if (watch.seenAtTerminal) {
+    watch.missingPolls += 1;
+    if (watch.missingPolls >= config.gonePollsBeforeComplete) {
+      watch.status = "completed";
+      watch.finishedAt = checkedAt;
+      await deliverWebhook(watch, "left_terminal", { state: watch.state });
+    }
+  }
+};
+
+let polling = false;
+
+export const pollWatchlist = async (): Promise<void> => {
+  if (polling) {
+    return;
+  }
+
+  polling = true;
+  try {
+    const store = loadWatches();
+    const now = Date.now();
+
+    for (const watch of store.values()) {
+      if (watch.status === "active" && Date.parse(watch.expiresAt) <= now) {
+        watch.status = "expired";
+        watch.finishedAt = new Date(now).toISOString();
+      }
+      if (
+        watch.status !== "active" &&
+        watch.finishedAt &&
+        Date.parse(watch.finishedAt) + FINISHED_RETENTION_MS <= now
+      ) {
+        store.delete(watch.id);
+      }
+    }
+
+    const active = [...store.values()].filter((watch) => watch.status === "active");
+    const containers = [...new Set(active.map((watch) => watch.container))];
+
+    await mapWithConcurrency(containers, config.concurrency, async (cont) => {
+      try {
+        const result = await pollContainer(cont);
+        const checkedAt = new Date().toISOString();
+        for (const watch of active.filter((candidate) => candidate.container === cont)) {
+          await applyPollResult(watch, result, checkedAt);
+        }
+      } catch (error) {
+        console.warn(
+          `[watchlist] Polling ${cont} failed: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+      }
+    });
+  } finally {
+    polling = false;
+    scheduleWrite();
+  }
+};
+
+export const startWatchlistScheduler = () => {
+  if (!config.enabled) {
+    return;
+  }
+
+  setInterval(() => void pollWatchlist(), config.pollIntervalMs).unref();
+};
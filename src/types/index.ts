@@ -9,13 +9,40 @@ export interface ContainerCsvInfo {
   timeOut?: number;
 }
 
+export interface ContainerDetails {
+  inboundMode?: string;
+  carrierSeal?: string;
+  vetSeal?: string;
+  customsSeal?: string;
+  timeIn?: string; // ISO 8601
+  timeOut?: string; // ISO 8601
+  raw: Record<string, string>; // original CSV columns
+}
+
 export interface ContainerInfo {
   stop?: string;
   cen?: string;
   t_state?: string;
+  details?: ContainerDetails;
 }
 
 export interface BctInfo {
   cen?: string;
   status?: string;
+  /** Every row of the container card, keyed by normalised row title. */
+  fields?: Record<string, string>;
+}
+
+export type LookupOutcomeState =
+  | "found"
+  | "not_found"
+  | "upstream_blocked"
+  | "token_missing"
+  | "timeout"
+  | "http_error";
+
+export interface LookupOutcome {
+  state: LookupOutcomeState;
+  attempts: number;
+  lastError?: string;
 }
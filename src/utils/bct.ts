@@ -1,7 +1,15 @@
 import { load } from "cheerio";
+import { createParserDriftMonitor } from "./parserDrift";
 import { normalizeHeader } from "./strings";
 import type { BctInfo } from "../types";
 
+// Substrings of normalised row titles the extractor below relies on.
+const KNOWN_LABEL_FRAGMENTS = ["cen", "tstate", "status"];
+
+const driftMonitor = createParserDriftMonitor("bct", (label) =>
+  KNOWN_LABEL_FRAGMENTS.some((fragment) => label.includes(fragment))
+);
+
 const normalizeTableValue = (value: string): string | undefined => {
   const trimmed = value.replace(/\s+/g, " ").trim();
   if (!trimmed) return undefined;
@@ -12,6 +20,7 @@ const normalizeTableValue = (value: string): string | undefined => {
 const buildContainerFieldMap = (html: string): Record<string, string> => {
   const doc = load(html);
   const map: Record<string, string> = {};
+  const labels: string[] = [];
 
   doc(".container-card-table tbody tr").each((_, row) => {
     const rowEl = doc(row);
@@ -20,6 +29,7 @@ const buildContainerFieldMap = (html: string): Record<string, string> => {
 
     const key = normalizeHeader(title);
     if (!key) return;
+    labels.push(key);
 
     const normalizedValue = normalizeTableValue(value);
     if (!normalizedValue) return;
@@ -27,6 +37,7 @@ const buildContainerFieldMap = (html: string): Record<string, string> => {
     map[key] = normalizedValue;
   });
 
+  driftMonitor.record({ tablePresent: doc(".container-card-table").length > 0, labels });
   return map;
 };
 
@@ -49,5 +60,14 @@ export function extractContainerInfoFromBctHtml(html: string): BctInfo {
     findFieldValue(fields, (key) => key.includes("tstate")) ||
     findFieldValue(fields, (key) => key.includes("status"));
 
-  return { cen, status };
+  return Object.keys(fields).length > 0 ? { cen, status, fields } : { cen, status };
+}
+
+/**
+ * The submit endpoint answers with an HTML fragment. A whole document or a
+ * login form means eBrama dropped the session and served a page instead; a
+ * fragment without a container card is a valid "no results" answer.
+ */
+export function isBctSessionRejectedHtml(html: string): boolean {
+  return /<html[\s>]/i.test(html) || /<input[^>]+type=["']?password/i.test(html);
 }
@@ -1,30 +1,176 @@
+export type ConcurrencySignal = "success" | "backoff" | "neutral";
+
+export type AdaptiveConcurrencyOptions = {
+  min: number;
+  max: number;
+  initial?: number;
+  /** Successes slower than this do not grow the limit. */
+  fastMs?: number;
+  /** Multiplier applied to the limit on a backoff signal. */
+  backoffFactor?: number;
+};
+
+export type AdaptiveConcurrencyReport = {
+  mode: "adaptive";
+  min: number;
+  max: number;
+  initial: number;
+  settled: number;
+  peak: number;
+  increases: number;
+  backoffs: number;
+};
+
+export type ConcurrencyReport = { mode: "fixed"; limit: number } | AdaptiveConcurrencyReport;
+
+const DEFAULT_FAST_MS = 3_000;
+const DEFAULT_BACKOFF_FACTOR = 0.5;
+// Requests already in flight when a backoff happens tend to fail together; count them once.
+const BACKOFF_QUIET_MS = 1_000;
+
+const clampInt = (value: number, min: number, max: number): number =>
+  Math.max(min, Math.min(max, Math.trunc(value)));
+
+/**
+ * AIMD limit for `mapWithConcurrency`: grows by one after a full window of fast
+ * successes and shrinks multiplicatively on timeouts or block pages. Mappers
+ * report what happened via `record`.
+ */
+export class AdaptiveConcurrency {
+  readonly min: number;
+  readonly max: number;
+  readonly initial: number;
+  private readonly fastMs: number;
+  private readonly backoffFactor: number;
+  private limit: number;
+  private peak: number;
+  private streak = 0;
+  private increases = 0;
+  private backoffs = 0;
+  private lastBackoffAt = 0;
+  private readonly listeners = new Set<() => void>();
+
+  constructor(options: AdaptiveConcurrencyOptions) {
+    this.min = Math.max(1, Math.trunc(options.min));
+    this.max = Math.max(this.min, Math.trunc(options.max));
+    this.initial = clampInt(options.initial ?? this.min, this.min, this.max);
+    this.fastMs = options.fastMs ?? DEFAULT_FAST_MS;
+    this.backoffFactor = options.backoffFactor ?? DEFAULT_BACKOFF_FACTOR;
+    this.limit = this.initial;
+    this.peak = this.initial;
+  }
+
+  get current(): number {
+    return this.limit;
+  }
+
+  record(signal: ConcurrencySignal, durationMs: number): void {
+    if (signal === "backoff") {
+      const now = Date.now();
+      this.streak = 0;
+      if (now - this.lastBackoffAt < BACKOFF_QUIET_MS) {
+        return;
+      }
+      this.lastBackoffAt = now;
+      this.backoffs += 1;
+      this.limit = clampInt(this.limit * this.backoffFactor, this.min, this.max);
+      return;
+    }
+
+    if (signal !== "success" || durationMs > this.fastMs) {
+      return;
+    }
+
+    this.streak += 1;
+    if (this.streak >= this.limit && this.limit < this.max) {
+      this.streak = 0;
+      this.limit += 1;
+      this.increases += 1;
+      this.peak = Math.max(this.peak, this.limit);
+      this.listeners.forEach((listener) => listener());
+    }
+  }
+
+  /** Resolves on the next limit increase (or after `timeoutMs`, to re-check after backoffs). */
+  waitForCapacity(timeoutMs: number): Promise<void> {
+    return new Promise((resolve) => {
+      const done = () => {
+        clearTimeout(timer);
+        this.listeners.delete(done);
+        resolve();
+      };
+      const timer = setTimeout(done, timeoutMs);
+      this.listeners.add(done);
+    });
+  }
+
+  report(): AdaptiveConcurrencyReport {
+    return {
+      mode: "adaptive",
+      min: this.min,
+      max: this.max,
+      initial: this.initial,
+      settled: this.limit,
+      peak: this.peak,
+      increases: this.increases,
+      backoffs: this.backoffs,
+    };
+  }
+}
+
+export type ConcurrencyLimit = number | AdaptiveConcurrency;
+
+export const describeConcurrency = (limit: ConcurrencyLimit): ConcurrencyReport =>
+  typeof limit === "number" ? { mode: "fixed", limit } : limit.report();
+
+const CAPACITY_RECHECK_MS = 250;
+
 export async function mapWithConcurrency<T, R>(
   items: readonly T[],
-  limit: number,
+  limit: ConcurrencyLimit,
   mapper: (item: T, index: number) => Promise<R>
 ): Promise<R[]> {
   if (items.length === 0) {
     return [];
   }
 
-  const normalizedLimit = Number.isFinite(limit) && limit > 0 ? Math.trunc(limit) : 1;
+  const adaptive = typeof limit === "number" ? null : limit;
+  const upperBound = adaptive ? adaptive.max : limit as number;
+  const normalizedLimit =
+    Number.isFinite(upperBound) && upperBound > 0 ? Math.trunc(upperBound) : 1;
   const concurrency = Math.max(1, Math.min(items.length, normalizedLimit));
 
   const results: R[] = new Array(items.length);
   let index = 0;
+  let active = 0;
 
   async function worker(): Promise<void> {
     while (true) {
+      // Idle workers above the adaptive limit park here until it grows again.
+      while (adaptive && active >= adaptive.current && index < items.length) {
+        await adaptive.waitForCapacity(CAPACITY_RECHECK_MS);
+      }
+
       const current = index;
       index += 1;
       if (current >= items.length) {
         return;
       }
-      results[current] = await mapper(items[current], current);
+
+      active += 1;
+      const startedAt = Date.now();
+      try {
+        results[current] = await mapper(items[current], current);
+      } catch (error) {
+        adaptive?.record("backoff", Date.now() - startedAt);
+        throw error;
+      } finally {
+        active -= 1;
+      }
     }
   }
 
   const workers = Array.from({ length: concurrency }, () => worker());
   await Promise.all(workers);
   return results;
-}
\ No newline at end of file
+}
@@ -0,0 +1,125 @@
+export type ContainerNumberErrorReason =
+  | "empty"
+  | "invalid_length"
+  | "invalid_owner_code"
+  | "invalid_category"
+  | "invalid_serial"
+  | "check_digit_mismatch";
+
+export type ContainerNumberValidation =
+  | { valid: true; input: string; value: string; corrected: boolean }
+  | {
+      valid: false;
+      input: string;
+      normalized: string;
+      reason: ContainerNumberErrorReason;
+      message: string;
+    };
+
+export type ContainerNumberValidationOptions = {
+  autoCorrect?: boolean;
+};
+
+const CONTAINER_NUMBER_LENGTH = 11;
+const CATEGORY_IDENTIFIERS = ["U", "J", "Z"];
+
+// Digits commonly read in place of letters (and vice versa) by OCR or when typing by hand.
+const DIGIT_TO_LETTER: Record<string, string> = { "0": "O", "1": "I", "2": "Z", "5": "S", "8": "B" };
+const LETTER_TO_DIGIT: Record<string, string> = { O: "0", I: "1", L: "1", Z: "2", S: "5", B: "8" };
+
+// ISO 6346 letter values: A=10 onwards, skipping multiples of 11.
+const LETTER_VALUES: Record<string, number> = (() => {
+  const values: Record<string, number> = {};
+  let value = 10;
+  for (let code = 65; code <= 90; code++) {
+    if (value % 11 === 0) value++;
+    values[String.fromCharCode(code)] = value;
+    value++;
+  }
+  return values;
+})();
+
+export const normalizeContainerNumber = (raw: string): string =>
+  String(raw ?? "")
+    .replace(/[\s\-–—._/]+/g, "")
+    .toUpperCase();
+
+export const computeCheckDigit = (prefix: string): number => {
+  let sum = 0;
+  for (let i = 0; i < 10; i++) {
+    const char = prefix[i];
+    const value = /\d/.test(char) ? Number(char) : LETTER_VALUES[char];
+    sum += value * 2 ** i;
+  }
+  return (sum % 11) % 10;
+};
+
+const applyOcrCorrections = (value: string): string =>
+  value
+    .split("")
+    .map((char, index) =>
+      index < 4 ? DIGIT_TO_LETTER[char] ?? char : LETTER_TO_DIGIT[char] ?? char
+    )
+    .join("");
+
+const invalid = (
+  input: string,
+  normalized: string,
+  reason: ContainerNumberErrorReason,
+  message: string
+): ContainerNumberValidation => ({ valid: false, input, normalized, reason, message });
+
+export const validateContainerNumber = (
+  input: string,
+  options: ContainerNumberValidationOptions = {}
+): ContainerNumberValidation => {
+  const normalized = normalizeContainerNumber(input);
+  if (!normalized) {
+    return invalid(input, normalized, "empty", "Container number is empty.");
+  }
+
+  if (normalized.length !== CONTAINER_NUMBER_LENGTH) {
+    return invalid(
+      input,
+      normalized,
+      "invalid_length",
+      `Expected ${CONTAINER_NUMBER_LENGTH} characters, got ${normalized.length}.`
+    );
+  }
+
+  const candidate = options.autoCorrect ? applyOcrCorrections(normalized) : normalized;
+
+  if (!/^[A-Z]{3}$/.test(candidate.slice(0, 3))) {
+    return invalid(input, normalized, "invalid_owner_code", "Owner code must be three letters.");
+  }
+
+  if (!CATEGORY_IDENTIFIERS.includes(candidate[3])) {
+    return invalid(
+      input,
+      normalized,
+      "invalid_category",
+      `Category identifier must be one of ${CATEGORY_IDENTIFIERS.join(", ")}.`
+    );
+  }
+
+  if (!/^\d{7}$/.test(candidate.slice(4))) {
+    return invalid(
+      input,
+      normalized,
+      "invalid_serial",
+      "Serial number and check digit must be seven digits."
+    );
+  }
+
+  const expected = computeCheckDigit(candidate);
+  if (Number(candidate[10]) !== expected) {
+    return invalid(
+      input,
+      normalized,
+      "check_digit_mismatch",
+      `Check digit ${candidate[10]} does not match expected ${expected}.`
+    );
+  }
+
+  return { valid: true, input, value: candidate, corrected: candidate !== normalized };
+};
@@ -1,6 +1,6 @@
 import Papa from "papaparse";
 import { normalizeHeader } from "./strings";
-import type { ContainerCsvInfo } from "../types/index";
+import type { ContainerCsvInfo, ContainerDetails } from "../types/index";
 
 const containerKeys = [
   "numer",
@@ -38,7 +38,7 @@ const pickValue = (
   return undefined;
 };
 
-const pickTimestamp = (
+const pickKeyedTimestamp = (
   row: Record<string, string | undefined>,
   keys: readonly string[]
 ): number | undefined => {
@@ -49,6 +49,15 @@ const pickTimestamp = (
     const parsed = Date.parse(value);
     if (!Number.isNaN(parsed)) return parsed;
   }
+  return undefined;
+};
+
+const pickTimestamp = (
+  row: Record<string, string | undefined>,
+  keys: readonly string[]
+): number | undefined => {
+  const keyed = pickKeyedTimestamp(row, keys);
+  if (keyed !== undefined) return keyed;
 
   const fallback = Object.values(row)
     .map(normalizeValue)
@@ -216,3 +225,75 @@ export function buildContainerInfoFromCsv(csv: string): Record<string, Container
   return output;
 }
 
+const toIsoTimestamp = (value: number | undefined): string | undefined =>
+  typeof value === "number" ? new Date(value).toISOString() : undefined;
+
+/**
+ * Full per-container view of the CSV (seals, inbound mode, gate times and the
+ * original columns). When a container has several rows the same row precedence
+ * as `buildContainerInfoFromCsv` applies.
+ */
+export function buildContainerDetailsFromCsv(csv: string): Record<string, ContainerDetails> {
+  const { data } = Papa.parse<string[]>(csv, {
+    header: false,
+    skipEmptyLines: "greedy",
+    dynamicTyping: false,
+  });
+
+  const [headerRow, ...rows] = data;
+  if (!headerRow) return {};
+
+  const originalHeaders = headerRow.map(header => String(header ?? "").replace(/\uFEFF/g, "").trim());
+  const normalizedHeaders = originalHeaders.map(header => normalizeHeader(header));
+
+  type CandidateDetails = ContainerCsvInfo & { details: ContainerDetails };
+  const result: Record<string, CandidateDetails> = {};
+
+  for (const cells of rows) {
+    if (!Array.isArray(cells)) continue;
+
+    const row: Record<string, string | undefined> = {};
+    const raw: Record<string, string> = {};
+    normalizedHeaders.forEach((key, index) => {
+      const value = cells[index];
+      if (key && row[key] === undefined) row[key] = value;
+      if (originalHeaders[index] && !(originalHeaders[index] in raw)) {
+        raw[originalHeaders[index]] = value ?? "";
+      }
+    });
+
+    if (isRepeatedHeaderRow(row)) continue;
+
+    const cont = pickValue(row, containerKeys);
+    if (!cont) continue;
+
+    const timeIn = pickTimestamp(row, timeInKeys);
+    const timeOut = pickTimestamp(row, timeOutKeys);
+    const candidate: CandidateDetails = {
+      timeIn,
+      timeOut,
+      date: timeIn ?? timeOut ?? 0,
+      details: {
+        inboundMode: pickValue(row, inboundModeKeys),
+        carrierSeal: pickValue(row, carrierSealKeys),
+        vetSeal: pickValue(row, vetSealKeys),
+        customsSeal: pickValue(row, customsSealKeys),
+        // Only report timestamps that come from their own column.
+        timeIn: toIsoTimestamp(pickKeyedTimestamp(row, timeInKeys)),
+        timeOut: toIsoTimestamp(pickKeyedTimestamp(row, timeOutKeys)),
+        raw,
+      },
+    };
+
+    const existing = result[cont];
+    if (!existing || shouldUseCandidate(existing, candidate)) {
+      result[cont] = candidate;
+    }
+  }
+
+  const output: Record<string, ContainerDetails> = {};
+  for (const [container, { details }] of Object.entries(result)) {
+    output[container] = details;
+  }
+  return output;
+}
@@ -0,0 +1,52 @@
+import type { Request, Response } from "express";
+
+export type StreamFormat = "ndjson" | "sse";
+
+export type EventStream = {
+  send: (type: string, data: Record<string, unknown>) => void;
+  end: () => void;
+  /** True once the client went away; further `send` calls are ignored. */
+  isClosed: () => boolean;
+};
+
+export const resolveStreamFormat = (req: Request): StreamFormat | null => {
+  const accept = String(req.headers.accept ?? "").toLowerCase();
+  if (accept.includes("application/x-ndjson")) {
+    return "ndjson";
+  }
+  if (accept.includes("text/event-stream")) {
+    return "sse";
+  }
+  return null;
+};
+
+export const openEventStream = (res: Response, format: StreamFormat): EventStream => {
+  let closed = false;
+  res.on("close", () => {
+    closed = true;
+  });
+
+  res.status(200);
+  res.setHeader(
+    "Content-Type",
+    format === "ndjson" ? "application/x-ndjson; charset=utf-8" : "text/event-stream; charset=utf-8"
+  );
+  res.setHeader("Cache-Control", "no-cache");
+  res.setHeader("X-Accel-Buffering", "no");
+  if (format === "sse") {
+    res.setHeader("Connection", "keep-alive");
+  }
+  res.flushHeaders();
+
+  return {
+    send: (type, data) => {
+      if (closed) return;
+      const payload = JSON.stringify({ type, ...data });
+      res.write(format === "ndjson" ? `${payload}\n` : `event: ${type}\ndata: ${payload}\n\n`);
+    },
+    end: () => {
+      if (!closed) res.end();
+    },
+    isClosed: () => closed,
+  };
+};
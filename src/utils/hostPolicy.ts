@@ -0,0 +1,188 @@
+import axios, { type AxiosInstance, type InternalAxiosRequestConfig } from "axios";
+import { getOutboundPolicyConfig, type HostPolicy } from "../config/outboundPolicyConfig";
+import { sleep } from "./time";
+
+declare module "axios" {
+  interface AxiosRequestConfig {
+    /** Lets the caller count a 2xx response (e.g. a block page) as a failure for the breaker. */
+    isBlockedResponse?: (data: unknown) => boolean;
+  }
+}
+
+export type CircuitState = "closed" | "open" | "half_open";
+
+type HostState = {
+  host: string;
+  policy: HostPolicy;
+  tokens: number;
+  refilledAt: number;
+  circuit: CircuitState;
+  consecutiveFailures: number;
+  openedAt: number | null;
+  probeInFlight: boolean;
+  lastError: string | null;
+  requests: number;
+  failures: number;
+  rejected: number;
+};
+
+export class CircuitOpenError extends Error {
+  constructor(readonly host: string, readonly retryAt: Date | null) {
+    super(
+      retryAt
+        ? `Circuit for ${host} is open after repeated failures; retry after ${retryAt.toISOString()}`
+        : `Circuit for ${host} is half-open; a probe request is already in flight`
+    );
+    this.name = "CircuitOpenError";
+  }
+}
+
+const config = getOutboundPolicyConfig();
+const hosts = new Map<string, HostState>();
+
+const getHostState = (host: string): HostState => {
+  let state = hosts.get(host);
+  if (!state) {
+    const policy = { ...config.defaults, ...(config.hosts[host] ?? {}) };
+    state = {
+      host,
+      policy,
+      tokens: policy.burst,
+      refilledAt: Date.now(),
+      circuit: "closed",
+      consecutiveFailures: 0,
+      openedAt: null,
+      probeInFlight: false,
+      lastError: null,
+      requests: 0,
+      failures: 0,
+      rejected: 0,
+    };
+    hosts.set(host, state);
+  }
+  return state;
+};
+
+const takeToken = async (state: HostState): Promise<void> => {
+  for (;;) {
+    const now = Date.now();
+    const refill = ((now - state.refilledAt) / 1000) * state.policy.ratePerSecond;
+    state.tokens = Math.min(state.policy.burst, state.tokens + refill);
+    state.refilledAt = now;
+    if (state.tokens >= 1) {
+      state.tokens -= 1;
+      return;
+    }
+    await sleep(Math.ceil(((1 - state.tokens) / state.policy.ratePerSecond) * 1000));
+  }
+};
+
+const retryAtOf = (state: HostState): Date | null =>
+  state.openedAt === null ? null : new Date(state.openedAt + state.policy.cooldownMs);
+
+/** Throws when the circuit rejects the request; marks the request as the probe when half-open. */
+const admit = (state: HostState): void => {
+  if (state.circuit === "open" && Date.now() >= (retryAtOf(state)?.getTime() ?? 0)) {
+    state.circuit = "half_open";
+  }
+
+  if (state.circuit === "open" || (state.circuit === "half_open" && state.probeInFlight)) {
+    state.rejected += 1;
+    throw new CircuitOpenError(state.host, state.circuit === "open" ? retryAtOf(state) : null);
+  }
+
+  if (state.circuit === "half_open") {
+    state.probeInFlight = true;
+  }
+};
+
+const recordSuccess = (state: HostState): void => {
+  if (state.circuit !== "closed") {
+    console.log(`[outbound] Circuit for ${state.host} closed`);
+  }
+  state.circuit = "closed";
+  state.consecutiveFailures = 0;
+  state.openedAt = null;
+  state.probeInFlight = false;
+};
+
+const recordFailure = (state: HostState, message: string): void => {
+  state.failures += 1;
+  state.consecutiveFailures += 1;
+  state.lastError = message;
+  state.probeInFlight = false;
+
+  const shouldOpen =
+    state.circuit === "half_open" ||
+    (state.circuit === "closed" && state.consecutiveFailures >= state.policy.failureThreshold);
+  if (shouldOpen) {
+    state.circuit = "open";
+    state.openedAt = Date.now();
+    console.warn(
+      `[outbound] Circuit for ${state.host} opened after ${state.consecutiveFailures} consecutive failures: ${message}`
+    );
+  }
+};
+
+const hostOf = (request: InternalAxiosRequestConfig): string => new URL(axios.getUri(request)).host;
+
+// 4xx answers (other than 429) mean the host is up and talking to us.
+const isHostFailure = (error: unknown): boolean => {
+  if (!axios.isAxiosError(error) || !error.response) {
+    return true;
+  }
+  const status = error.response.status;
+  return status >= 500 || status === 429;
+};
+
+/**
+ * Puts every request of the instance through a per-host token bucket and
+ * circuit breaker. Limits come from `OUTBOUND_*` env vars, with per-host
+ * overrides in `OUTBOUND_HOST_POLICIES`.
+ */
+export const withHostPolicy = <T extends AxiosInstance>(instance: T): T => {
+  const upstream = axios.getAdapter(instance.defaults.adapter ?? axios.defaults.adapter);
+
+  instance.defaults.adapter = async (request) => {
+    const state = getHostState(hostOf(request));
+    admit(state);
+    await takeToken(state);
+    state.requests += 1;
+
+    try {
+      const response = await upstream(request);
+      if (request.isBlockedResponse?.(response.data)) {
+        recordFailure(state, "Upstream returned a block page");
+      } else {
+        recordSuccess(state);
+      }
+      return response;
+    } catch (error) {
+      if (isHostFailure(error)) {
+        recordFailure(state, error instanceof Error ? error.message : String(error));
+      } else {
+        recordSuccess(state);
+      }
+      throw error;
+    }
+  };
+  return instance;
+};
+
+export const isCircuitOpen = (host: string): boolean => hosts.get(host)?.circuit === "open";
+
+export const describeHostPolicies = (only?: readonly string[]) =>
+  [...hosts.values()]
+    .filter((state) => !only || only.includes(state.host))
+    .map((state) => ({
+      host: state.host,
+      circuit: state.circuit,
+      consecutiveFailures: state.consecutiveFailures,
+      openedAt: state.openedAt === null ? null : new Date(state.openedAt).toISOString(),
+      retryAt: state.circuit === "open" ? retryAtOf(state)?.toISOString() ?? null : null,
+      lastError: state.lastError,
+      requests: state.requests,
+      failures: state.failures,
+      rejected: state.rejected,
+      availableTokens: Math.floor(state.tokens),
+    }));
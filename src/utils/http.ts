@@ -1,11 +1,23 @@
 import axios from "axios";
+import { withHostPolicy } from "./hostPolicy";
+import { withRecordReplay } from "./httpRecorder";
 
 
-export const http = axios.create({
+const createClient = () => axios.create({
 timeout: 20000,
 headers: {
 "User-Agent": "Mozilla/5.0",
 Accept: "*/*"
 },
 validateStatus: s => s >= 200 && s < 300
-});
\ No newline at end of file
+});
+
+/**
+ * Terminal upstream calls; the only traffic that record/replay captures. The
+ * host policy wraps the recorder so replayed runs still go through the token
+ * bucket and circuit breaker.
+ */
+export const http = withHostPolicy(withRecordReplay(createClient()));
+
+/** Webhooks we send ourselves; never recorded or answered from fixtures. */
+export const webhookHttp = withHostPolicy(createClient());
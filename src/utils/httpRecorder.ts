@@ -0,0 +1,129 @@
+import crypto from "crypto";
+import path from "path";
+import axios, {
+  AxiosError,
+  AxiosHeaders,
+  type AxiosInstance,
+  type AxiosResponse,
+  type InternalAxiosRequestConfig,
+} from "axios";
+import { getHttpRecordConfig } from "../config/httpRecordConfig";
+import { readJsonFileSync, writeJsonFileAtomic } from "./jsonFile";
+
+type HttpFixture = {
+  recordedAt: string;
+  request: { method: string; url: string; body: string };
+  response: { status: number; statusText: string; headers: Record<string, unknown>; data: unknown };
+};
+
+// Per-session values that would otherwise make every recorded request unique.
+const VOLATILE_BODY_PARAMS = /(__RequestVerificationToken=)[^&]*/g;
+
+const config = getHttpRecordConfig();
+const fixturesDir = path.resolve(process.cwd(), config.fixturesDir);
+
+if (config.mode !== "off") {
+  console.log(`[http] ${config.mode} mode, fixtures in ${fixturesDir}`);
+}
+
+const toBody = (data: unknown): string => {
+  if (data === undefined || data === null) return "";
+  return typeof data === "string" ? data : JSON.stringify(data);
+};
+
+const describeRequest = (request: InternalAxiosRequestConfig) => ({
+  method: (request.method ?? "get").toUpperCase(),
+  url: axios.getUri(request),
+  body: toBody(request.data).replace(VOLATILE_BODY_PARAMS, "$1"),
+});
+
+const fixturePath = (request: HttpFixture["request"]): string => {
+  const hash = crypto
+    .createHash("sha256")
+    .update(`${request.method} ${request.url}\n${request.body}`)
+    .digest("hex")
+    .slice(0, 16);
+  const host = new URL(request.url).hostname.replace(/[^a-z0-9.-]/gi, "_");
+  return path.join(fixturesDir, `${host}-${request.method.toLowerCase()}-${hash}.json`);
+};
+
+const replay = async (request: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+  const described = describeRequest(request);
+  const fixture = readJsonFileSync<HttpFixture>(fixturePath(described), "http-replay");
+  if (!fixture) {
+    throw new AxiosError(
+      `No recorded fixture for ${described.method} ${described.url}`,
+      AxiosError.ERR_NETWORK,
+      request
+    );
+  }
+
+  const response: AxiosResponse = {
+    data: fixture.response.data,
+    status: fixture.response.status,
+    statusText: fixture.response.statusText,
+    headers: AxiosHeaders.from(fixture.response.headers as Record<string, string>),
+    config: request,
+    request: null,
+  };
+
+  const validateStatus = request.validateStatus;
+  if (validateStatus && !validateStatus(response.status)) {
+    throw new AxiosError(
+      `Request failed with status code ${response.status}`,
+      AxiosError.ERR_BAD_RESPONSE,
+      request,
+      null,
+      response
+    );
+  }
+  return response;
+};
+
+const saveFixture = async (request: InternalAxiosRequestConfig, response: AxiosResponse) => {
+  const described = describeRequest(request);
+  const fixture: HttpFixture = {
+    recordedAt: new Date().toISOString(),
+    request: described,
+    response: {
+      status: response.status,
+      statusText: response.statusText,
+      headers: JSON.parse(JSON.stringify(response.headers ?? {})),
+      data: response.data,
+    },
+  };
+  await writeJsonFileAtomic(fixturePath(described), fixture, "http-record");
+};
+
+/**
+ * Wraps the instance adapter according to `HTTP_RECORD_MODE` / `--http-mode`:
+ * `record` saves every response under the fixtures directory, `replay` serves
+ * them back without touching the network. `off` leaves the instance untouched.
+ * Apply it before `withHostPolicy`, so the policy wraps the recorder and still
+ * runs for replayed requests.
+ */
+export const withRecordReplay = <T extends AxiosInstance>(instance: T): T => {
+  if (config.mode === "off") {
+    return instance;
+  }
+
+  if (config.mode === "replay") {
+    instance.defaults.adapter = replay;
+    return instance;
+  }
+
+  const upstream = axios.getAdapter(instance.defaults.adapter ?? axios.defaults.adapter);
+  instance.defaults.adapter = async (request) => {
+    try {
+      const response = await upstream(request);
+      await saveFixture(request, response);
+      return response;
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response) {
+        await saveFixture(request, error.response);
+      }
+      throw error;
+    }
+  };
+  return instance;
+};
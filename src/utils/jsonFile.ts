@@ -0,0 +1,56 @@
+import fs from "fs";
+import path from "path";
+
+const describeError = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
+
+export const resolveDataPath = (configured: string | undefined, fallback: string): string => {
+  const trimmed = configured?.trim();
+  return path.resolve(process.cwd(), trimmed ? trimmed : fallback);
+};
+
+export const readJsonFileSync = <T>(filePath: string, label: string): T | undefined => {
+  if (!fs.existsSync(filePath)) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(fs.readFileSync(filePath, "utf8")) as T;
+  } catch (error) {
+    console.warn(`[${label}] Failed to read ${filePath}: ${describeError(error)}`);
+    return undefined;
+  }
+};
+
+export const writeJsonFileAtomic = async (
+  filePath: string,
+  value: unknown,
+  label: string
+): Promise<void> => {
+  const tmpPath = `${filePath}.tmp`;
+  try {
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(tmpPath, JSON.stringify(value), "utf8");
+    await fs.promises.rename(tmpPath, filePath);
+  } catch (error) {
+    console.warn(`[${label}] Failed to write ${filePath}: ${describeError(error)}`);
+  }
+};
+
+/**
+ * Returns a function that coalesces repeated calls into a single write after `delayMs`.
+ */
+export const createDebouncedWriter = (write: () => Promise<void>, delayMs: number) => {
+  let timer: NodeJS.Timeout | null = null;
+  return () => {
+    if (timer) {
+      return;
+    }
+
+    timer = setTimeout(() => {
+      timer = null;
+      void write();
+    }, delayMs);
+    timer.unref();
+  };
+};
@@ -0,0 +1,123 @@
+export type ParserObservation = {
+  /** False when the page had no result table at all (e.g. an unknown container). */
+  tablePresent: boolean;
+  /** Normalised row titles found in the table. */
+  labels: readonly string[];
+};
+
+type LabelStats = {
+  known: boolean;
+  count: number;
+  firstSeenAt: string;
+  lastSeenAt: string;
+};
+
+export type ParserDriftStatus = {
+  parser: string;
+  /** `drift` when the latest response with a table matched none of the known fields. */
+  status: "unknown" | "ok" | "drift";
+  responses: number;
+  withTable: number;
+  drifted: number;
+  lastDrift: { at: string; labels: string[] } | null;
+  /** Labels first seen after the first table was parsed, in order of appearance. */
+  newLabels: string[];
+  labels: Record<string, LabelStats>;
+};
+
+/**
+ * Watches the row titles a scraper sees so a renamed label shows up in the
+ * logs and on `/utils/parsers/status` instead of as silently empty results.
+ */
+export class ParserDriftMonitor {
+  private responses = 0;
+  private withTable = 0;
+  private drifted = 0;
+  private lastTableMatched: boolean | null = null;
+  private lastDrift: ParserDriftStatus["lastDrift"] = null;
+  private readonly loggedDrifts = new Set<string>();
+  private readonly newLabels: string[] = [];
+  private readonly labels = new Map<string, LabelStats>();
+
+  constructor(
+    readonly name: string,
+    private readonly isKnownLabel: (label: string) => boolean
+  ) {}
+
+  record(observation: ParserObservation): void {
+    this.responses += 1;
+    if (!observation.tablePresent) {
+      return;
+    }
+
+    const now = new Date().toISOString();
+    const baselineSeen = this.withTable > 0;
+    this.withTable += 1;
+
+    for (const label of new Set(observation.labels)) {
+      const existing = this.labels.get(label);
+      if (existing) {
+        existing.count += 1;
+        existing.lastSeenAt = now;
+        continue;
+      }
+
+      const known = this.isKnownLabel(label);
+      this.labels.set(label, { known, count: 1, firstSeenAt: now, lastSeenAt: now });
+      if (baselineSeen) {
+        this.newLabels.push(label);
+        console.warn(
+          `[parser:${this.name}] New ${known ? "known" : "unknown"} row label "${label}"`
+        );
+      }
+    }
+
+    this.lastTableMatched = observation.labels.some(this.isKnownLabel);
+    if (this.lastTableMatched) {
+      return;
+    }
+
+    this.drifted += 1;
+    const labels = [...new Set(observation.labels)].sort();
+    this.lastDrift = { at: now, labels };
+    // One warning per distinct label set keeps a broken parser from flooding the log.
+    const signature = labels.join(",");
+    if (!this.loggedDrifts.has(signature)) {
+      this.loggedDrifts.add(signature);
+      console.warn(
+        `[parser:${this.name}] Result table present but no known field matched; labels: ${
+          labels.join(", ") || "(none)"
+        }`
+      );
+    }
+  }
+
+  status(): ParserDriftStatus {
+    return {
+      parser: this.name,
+      status: this.lastTableMatched === null ? "unknown" : this.lastTableMatched ? "ok" : "drift",
+      responses: this.responses,
+      withTable: this.withTable,
+      drifted: this.drifted,
+      lastDrift: this.lastDrift,
+      newLabels: [...this.newLabels],
+      labels: Object.fromEntries(
+        [...this.labels].map(([label, stats]) => [label, { ...stats }])
+      ),
+    };
+  }
+}
+
+const monitors = new Map<string, ParserDriftMonitor>();
+
+export const createParserDriftMonitor = (
+  name: string,
+  isKnownLabel: (label: string) => boolean
+): ParserDriftMonitor => {
+  const monitor = new ParserDriftMonitor(name, isKnownLabel);
+  monitors.set(name, monitor);
+  return monitor;
+};
+
+export const getParserDriftStatuses = (): ParserDriftStatus[] =>
+  [...monitors.values()].map((monitor) => monitor.status());
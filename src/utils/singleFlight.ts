@@ -0,0 +1,48 @@
+export type SingleFlightStats = {
+  inFlight: number;
+  calls: number;
+  /** Calls that joined a promise already in flight instead of starting their own. */
+  shared: number;
+};
+
+/**
+ * Collapses concurrent calls with the same key into one in-flight promise.
+ * Nothing is kept once the promise settles, so this is not a cache: a call
+ * made after the first one finished starts a new request.
+ */
+export class SingleFlight<V> {
+  private readonly inFlight = new Map<string, Promise<V>>();
+  private calls = 0;
+  private shared = 0;
+
+  run(key: string, task: () => Promise<V>): Promise<V> {
+    this.calls += 1;
+    const existing = this.inFlight.get(key);
+    if (existing) {
+      this.shared += 1;
+      return existing;
+    }
+
+    const promise = task().finally(() => {
+      this.inFlight.delete(key);
+    });
+    this.inFlight.set(key, promise);
+    return promise;
+  }
+
+  stats(): SingleFlightStats {
+    return { inFlight: this.inFlight.size, calls: this.calls, shared: this.shared };
+  }
+}
+
+const registry = new Map<string, SingleFlight<unknown>>();
+
+/** Named single-flight groups, so their stats can be reported together. */
+export const createSingleFlight = <V>(name: string): SingleFlight<V> => {
+  const flight = new SingleFlight<V>();
+  registry.set(name, flight as SingleFlight<unknown>);
+  return flight;
+};
+
+export const getSingleFlightStats = (): Record<string, SingleFlightStats> =>
+  Object.fromEntries([...registry].map(([name, flight]) => [name, flight.stats()]));
@@ -0,0 +1,52 @@
+import type { Request, Response } from "express";
+import Papa from "papaparse";
+import { buildXlsx, type XlsxCell } from "./xlsx";
+
+export type ExportFormat = "csv" | "xlsx";
+
+export type ExportTable = {
+  columns: readonly string[];
+  rows: readonly XlsxCell[][];
+};
+
+const XLSX_CONTENT_TYPE = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+/** `?format=csv|xlsx` wins over the Accept header; `null` means a regular JSON response. */
+export const resolveExportFormat = (req: Request): ExportFormat | null => {
+  const raw = req.query?.format;
+  const format = String(Array.isArray(raw) ? raw[0] : raw ?? "").trim().toLowerCase();
+  if (format === "csv" || format === "xlsx") {
+    return format;
+  }
+
+  const accept = String(req.headers.accept ?? "").toLowerCase();
+  if (accept.includes(XLSX_CONTENT_TYPE)) {
+    return "xlsx";
+  }
+  if (accept.includes("text/csv")) {
+    return "csv";
+  }
+  return null;
+};
+
+export const sendTableExport = (
+  res: Response,
+  format: ExportFormat,
+  baseName: string,
+  table: ExportTable
+) => {
+  const fileName = `${baseName}-${new Date().toISOString().slice(0, 10)}.${format}`;
+  res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+
+  if (format === "xlsx") {
+    res.type(XLSX_CONTENT_TYPE).send(buildXlsx(baseName, table.columns, table.rows));
+    return;
+  }
+
+  const csv = Papa.unparse({
+    fields: [...table.columns],
+    data: table.rows.map((row) => row.map((cell) => cell ?? "")),
+  });
+  // BOM so Excel opens the file as UTF-8.
+  res.type("text/csv; charset=utf-8").send(`\uFEFF${csv}\r\n`);
+};
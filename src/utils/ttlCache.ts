@@ -0,0 +1,104 @@
+import path from "path";
+import { createDebouncedWriter, readJsonFileSync, writeJsonFileAtomic } from "./jsonFile";
+
+type CacheEntry<V> = {
+  value: V;
+  storedAt: number;
+  expiresAt: number;
+};
+
+export type CachedValue<V> = {
+  value: V;
+  storedAt: number;
+  ageMs: number;
+};
+
+export type TtlCacheOptions = {
+  snapshotPath?: string;
+  snapshotDelayMs?: number;
+};
+
+const DEFAULT_SNAPSHOT_DELAY_MS = 5_000;
+
+export class TtlCache<V> {
+  private readonly entries = new Map<string, CacheEntry<V>>();
+  private readonly snapshotPath?: string;
+  private readonly scheduleSnapshot: () => void;
+
+  constructor(options: TtlCacheOptions = {}) {
+    this.snapshotPath = options.snapshotPath
+      ? path.resolve(process.cwd(), options.snapshotPath)
+      : undefined;
+    this.scheduleSnapshot = this.snapshotPath
+      ? createDebouncedWriter(
+          () => this.writeSnapshot(),
+          options.snapshotDelayMs ?? DEFAULT_SNAPSHOT_DELAY_MS
+        )
+      : () => undefined;
+    this.loadSnapshot();
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(key: string): CachedValue<V> | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    const now = Date.now();
+    if (entry.expiresAt <= now) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    return { value: entry.value, storedAt: entry.storedAt, ageMs: now - entry.storedAt };
+  }
+
+  set(key: string, value: V, ttlMs: number): void {
+    if (!(ttlMs > 0)) {
+      return;
+    }
+
+    const now = Date.now();
+    this.entries.set(key, { value, storedAt: now, expiresAt: now + ttlMs });
+    this.scheduleSnapshot();
+  }
+
+  delete(key: string): void {
+    if (this.entries.delete(key)) {
+      this.scheduleSnapshot();
+    }
+  }
+
+  private loadSnapshot(): void {
+    if (!this.snapshotPath) {
+      return;
+    }
+
+    const parsed = readJsonFileSync<unknown>(this.snapshotPath, "cache");
+    if (!Array.isArray(parsed)) {
+      return;
+    }
+
+    const now = Date.now();
+    for (const item of parsed) {
+      if (!Array.isArray(item) || typeof item[0] !== "string") continue;
+      const entry = item[1] as CacheEntry<V> | undefined;
+      if (!entry || typeof entry.expiresAt !== "number" || entry.expiresAt <= now) continue;
+      this.entries.set(item[0], entry);
+    }
+  }
+
+  private writeSnapshot(): Promise<void> {
+    if (!this.snapshotPath) {
+      return Promise.resolve();
+    }
+
+    const now = Date.now();
+    const live = [...this.entries.entries()].filter(([, entry]) => entry.expiresAt > now);
+    return writeJsonFileAtomic(this.snapshotPath, live, "cache");
+  }
+}